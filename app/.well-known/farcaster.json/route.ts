@@ -0,0 +1,8 @@
+import { buildManifest, getMiniAppConfig } from '@/lib/miniapp'
+
+// Built from the runtime environment rather than frozen at build time
+export const dynamic = 'force-dynamic'
+
+export function GET() {
+  return Response.json(buildManifest(getMiniAppConfig()))
+}
@@ -0,0 +1,2140 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { sdk } from '@farcaster/frame-sdk'
+import {
+  accelerationForTilt,
+  addBall,
+  advanceSimulation,
+  ArenaLayout,
+  Ball,
+  BALL_KIND_IDS,
+  BALL_KINDS,
+  BallKind,
+  CollisionEvent,
+  createSimulation,
+  createZones,
+  DEFAULT_PHYSICS_PARAMS,
+  DEFAULT_PIXELS_PER_METRE,
+  EMPTY_LAYOUT,
+  massForRadius,
+  MAX_BALLS,
+  MIN_IMPACT_SPEED,
+  PhysicsParams,
+  PhysicsState,
+  radiusForDiameter,
+  Simulation,
+  speedLimit,
+  Vector
+} from '@/lib/physics'
+import { BUNDLED_LEVELS, LevelDefinition, loadLevel, resolveLevel } from '@/lib/levels'
+import {
+  ChallengeResult,
+  challengeResult,
+  ChallengeState,
+  comboMultiplier,
+  createChallenge,
+  GameMode,
+  remainingMs,
+  updateChallenge
+} from '@/lib/challenge'
+import {
+  createInputProvider,
+  InputProvider,
+  INPUT_SOURCES,
+  InputSourceId,
+  isTiltProvider,
+  isTiltSource,
+  TiltSourceId
+} from '@/lib/input'
+import { averageVectors, DEFAULT_TILT_SETTINGS, MAX_SMOOTHING_MS, TiltSettings } from '@/lib/motion'
+import { AudioEngine, createAudioEngine, Surface } from '@/lib/audio'
+import { paintBackground, paintBall, resolveTheme, THEMES, ThemeSetting } from '@/lib/themes'
+import {
+  ARENA_SHAPE_IDS,
+  ARENA_SHAPES,
+  ArenaShapeId,
+  insetBounds,
+  mergeInsets,
+  NO_INSETS,
+  parseSafeAreaInsets,
+  readCssSafeAreaInsets,
+  readPixelsPerMetre,
+  SafeAreaInsets,
+  traceArenaPath,
+  withArenaShape
+} from '@/lib/arena'
+import { createEffects, Effects } from '@/lib/effects'
+import { applyPointerControls, createPointerControls, PointerControls } from '@/lib/pointer'
+import { BallOrientations, createBallOrientations } from '@/lib/rolling'
+import { createDebugOverlay, DebugOverlay, debugFlagFromQuery } from '@/lib/debug'
+import { withTimeout } from '@/lib/timeout'
+import { loadGuestId, Player, playerName, submitScore } from '@/lib/leaderboard'
+import { createMultiplayerClient, MultiplayerClient, multiplayerUrl } from '@/lib/multiplayerClient'
+import { createRoomCode, normalizeRoomCode, PlayerInfo } from '@/lib/multiplayerProtocol'
+import { addApp, AddAppStatus, initialAddAppStatus } from '@/lib/addApp'
+import { canvasSnapshot, COMPOSE_CAST_CAPABILITY, shareRun, ShareOutcome, shareText, shareUrl } from '@/lib/share'
+import { createHapticsPlayer, detectHapticBackend, hapticStyleForEvents, HapticsPlayer } from '@/lib/haptics'
+import {
+  audioSettingsForSettings,
+  DEFAULT_SETTINGS,
+  effectsSettingsForSettings,
+  encodeSettingsQuery,
+  FeedbackMode,
+  physicsParamsForSettings,
+  ReducedEffectsMode,
+  resolveInitialSettings,
+  saveSettings,
+  Settings,
+  SETTINGS_PRESETS,
+  SETTINGS_SCHEMA
+} from '@/lib/settings'
+import {
+  createRecorder,
+  createReplayPlayer,
+  exportTraceFile,
+  loadSavedTraces,
+  MotionTrace,
+  parseTrace,
+  quantizeTilt,
+  Recorder,
+  ReplayPlayer,
+  saveTrace,
+  traceDurationMs
+} from '@/lib/replay'
+import {
+  loadSurfaces,
+  MAX_SURFACES,
+  moveSurface,
+  paintedSurface,
+  paintSurfaces,
+  resolveSurfaces,
+  saveSurfaces,
+  SurfaceDefinition,
+  surfaceAt,
+  SurfaceTool
+} from '@/lib/surfaces'
+import {
+  AchievementToast,
+  createStatsTracker,
+  drawAchievementToasts,
+  loadStats,
+  saveStats,
+  StatsFrame,
+  StatsTracker,
+  uploadStats
+} from '@/lib/stats'
+import Leaderboard from './Leaderboard'
+import StatsPanel from './StatsPanel'
+import SurfaceEditor from './SurfaceEditor'
+
+// Shared look for the small outlined buttons in the menu
+const MENU_BUTTON_STYLE: React.CSSProperties = {
+  flex: 1,
+  padding: '8px',
+  fontSize: '12px',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: '#fff',
+  cursor: 'pointer'
+}
+
+// Which sound an event makes; wall bounces too gentle to hear (a ball resting against a wall) are skipped
+const soundSurface = (event: CollisionEvent): Surface | null => {
+  switch (event.type) {
+    case 'bounce':
+      return event.speed >= MIN_IMPACT_SPEED ? event.wall : null
+    case 'ballHit':
+      return 'ball'
+    case 'obstacleHit':
+      return 'obstacle'
+    case 'hole':
+    case 'goal':
+      return event.type
+    case 'zoneEnter':
+      return null
+  }
+}
+
+// The loudest roller sets the level of the rolling sound
+// How fast the fastest ball rolls relative to its own speed cap, 0-1
+const rollingLevel = (balls: Ball[], params: PhysicsParams) =>
+  balls.reduce((fastest, ball) => Math.max(fastest, Math.hypot(ball.vx, ball.vy) / speedLimit(ball, params)), 0)
+
+const FEEDBACK_OPTIONS: Array<{ id: FeedbackMode; label: string }> = [
+  { id: 'audio', label: '🔊 Audio' },
+  { id: 'haptics', label: '📳 Vibration' },
+  { id: 'both', label: 'Both' }
+]
+
+// Holding the menu button this long opens the debug overlay
+const LONG_PRESS_MS = 600
+
+// Lifetime stats are saved this often while playing, and synced for Farcaster users this often
+const STATS_SAVE_MS = 5000
+const STATS_SYNC_MS = 60_000
+
+const REDUCED_EFFECTS_OPTIONS: Array<{ id: ReducedEffectsMode; label: string }> = [
+  { id: 'system', label: 'System' },
+  { id: 'on', label: 'On' },
+  { id: 'off', label: 'Off' }
+]
+
+const EFFECT_TOGGLES: Array<{ key: 'trails' | 'squash' | 'particles'; label: string }> = [
+  { key: 'trails', label: 'Trails' },
+  { key: 'squash', label: 'Squash' },
+  { key: 'particles', label: 'Particles' }
+]
+
+// Tracks a CSS media query such as the system colour scheme or reduced motion
+function useMediaQuery(query: string, initial: boolean): boolean {
+  const [matches, setMatches] = useState(initial)
+  useEffect(() => {
+    const list = window.matchMedia(query)
+    const update = () => setMatches(list.matches)
+    update()
+    list.addEventListener('change', update)
+    return () => list.removeEventListener('change', update)
+  }, [query])
+  return matches
+}
+
+// A paint or move gesture in the surface editor, in arena pixels
+interface SurfaceDrag {
+  pointerId: number
+  start: Vector
+  current: Vector
+  moving: number | null // The surface being dragged with the select tool
+}
+
+// Colours handed out to extra balls, in order
+const BALL_PALETTE = ['#4ecdc4', '#ffe66d', '#a29bfe', '#fd79a8', '#55efc4', '#fab1a0', '#74b9ff']
+
+export default function FidgetBall() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const animationFrameRef = useRef<number>()
+  const [permissionGranted, setPermissionGranted] = useState(false)
+  const [permissionDenied, setPermissionDenied] = useState(false)
+  const [isRequestingPermission, setIsRequestingPermission] = useState(false)
+  const audioRef = useRef<AudioEngine | null>(null)
+  // Input and ball state live in refs so the animation loop never triggers a re-render
+  const [inputSource, setInputSource] = useState<InputSourceId>('demo')
+  const inputRef = useRef<InputProvider | null>(null)
+  const [tiltSettings, setTiltSettings] = useState<TiltSettings>(DEFAULT_TILT_SETTINGS)
+  const tiltSettingsRef = useRef(tiltSettings)
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const calibrationTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const [canvasSize, setCanvasSize] = useState({ width: 400, height: 400 })
+  // Notches and host chrome; the arena sits inside whichever inset is larger on each side
+  const [cssInsets, setCssInsets] = useState<SafeAreaInsets>(NO_INSETS)
+  const [hostInsets, setHostInsets] = useState<SafeAreaInsets>(NO_INSETS)
+  const [pixelsPerMetre, setPixelsPerMetre] = useState(DEFAULT_PIXELS_PER_METRE)
+  const [menuOpen, setMenuOpen] = useState(false)
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  // The 'auto' theme and 'system' reduced effects follow the OS, including changes while playing
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)', true)
+  const prefersReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)', false)
+  const effectsRef = useRef<Effects>(createEffects(effectsSettingsForSettings(DEFAULT_SETTINGS, false)))
+  const settingsLoadedRef = useRef(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [canComposeCast, setCanComposeCast] = useState(false)
+  const [shareStatus, setShareStatus] = useState<ShareOutcome | 'sharing' | null>(null)
+  const [addAppStatus, setAddAppStatus] = useState<AddAppStatus | null>(null)
+  const [hapticsSupported, setHapticsSupported] = useState(false)
+  const hapticsRef = useRef<HapticsPlayer | null>(null)
+  const simulationRef = useRef<Simulation>(createSimulation([{
+    x: 200,
+    y: 200,
+    vx: 0,
+    vy: 0,
+    spin: 0,
+    radius: 5,
+    color: '#ff6b6b',
+    mass: massForRadius(5)
+  }]))
+  const pointerRef = useRef<PointerControls>(createPointerControls())
+  const orientationsRef = useRef<BallOrientations>(createBallOrientations())
+  const [ballCount, setBallCount] = useState(1)
+  const [level, setLevel] = useState<LevelDefinition | null>(null)
+  const [levelError, setLevelError] = useState<string | null>(null)
+  const layoutRef = useRef<ArenaLayout>(EMPTY_LAYOUT)
+  const goalReachedAtRef = useRef<number | null>(null)
+  const [gameMode, setGameMode] = useState<GameMode>('free')
+  const [surfaces, setSurfaces] = useState<SurfaceDefinition[]>([])
+  const [editingSurfaces, setEditingSurfaces] = useState(false)
+  const [surfaceTool, setSurfaceTool] = useState<SurfaceTool>('select')
+  const [selectedSurface, setSelectedSurface] = useState<number | null>(null)
+  const surfaceDragRef = useRef<SurfaceDrag | null>(null)
+  const statsRef = useRef<StatsTracker>(createStatsTracker())
+  const toastsRef = useRef<AchievementToast[]>([])
+  const [statsOpen, setStatsOpen] = useState(false)
+  const [statsSync, setStatsSync] = useState<'pending' | 'synced' | 'failed'>('pending')
+  const challengeRef = useRef<ChallengeState | null>(null)
+  const [lastChallengeResult, setLastChallengeResult] = useState<ChallengeResult | null>(null)
+  const [player, setPlayer] = useState<Player | null>(null)
+  const [submittedRank, setSubmittedRank] = useState<number | null>(null)
+  const [leaderboardOpen, setLeaderboardOpen] = useState(false)
+  const [leaderboardRefresh, setLeaderboardRefresh] = useState(0)
+  const recorderRef = useRef<Recorder | null>(null)
+  const [isRecording, setIsRecording] = useState(false)
+  const [savedTraces, setSavedTraces] = useState<MotionTrace[]>([])
+  const replayRef = useRef<ReplayPlayer | null>(null)
+  const [replayFrameCount, setReplayFrameCount] = useState<number | null>(null)
+  const [replayPaused, setReplayPaused] = useState(false)
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const scrubberRef = useRef<HTMLInputElement>(null)
+  const multiplayerRef = useRef<MultiplayerClient | null>(null)
+  const multiplayerStateRef = useRef<PhysicsState | null>(null)
+  const [multiplayer, setMultiplayer] = useState<{ room: string; players: PlayerInfo[]; connected: boolean; error: string | null } | null>(null)
+  const [roomInput, setRoomInput] = useState('')
+  const [roomError, setRoomError] = useState<string | null>(null)
+  const autoJoinedRef = useRef(false)
+  const lastFrameTimeRef = useRef<number | null>(null)
+  const debugRef = useRef<DebugOverlay>(createDebugOverlay())
+  const [debugOpen, setDebugOpen] = useState(false)
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const longPressFiredRef = useRef(false)
+  // Latest frame callback, swapped on every render so the long-lived loop sees current settings
+  const frameCallbackRef = useRef<(time: number) => void>()
+  
+  // Track app loading state
+  const [appLoadingState, setAppLoadingState] = useState({
+    canvasInitialized: false,
+    hapticsChecked: false,
+    gameLoopStarted: false,
+    farcasterReady: false
+  })
+
+  // User adjustable ball, rolling resistance and bounciness on top of the engine defaults, at this screen's scale
+  const physicsParams = physicsParamsForSettings(settings, pixelsPerMetre)
+
+  // Shown next to the size; it doesn't depend on the screen
+  const ballMassKg = massForRadius(radiusForDiameter(settings.ballSize, pixelsPerMetre), settings.ballKind, pixelsPerMetre)
+
+  // Physics runs in arena coordinates; draw() shifts them past the top and left insets
+  const safeArea = mergeInsets(cssInsets, hostInsets)
+  const arenaSize = insetBounds(canvasSize, safeArea)
+
+  // One blip per impact; the engine's voice limiter keeps pile-ups from clipping
+  const playImpacts = (events: CollisionEvent[], balls: Ball[], params: PhysicsParams) => {
+    const audio = audioRef.current
+    if (!audio) return // Audio not initialized yet
+
+    for (const event of events) {
+      const surface = soundSurface(event)
+      if (!surface) continue
+      const ball = balls[event.ball]
+      const limit = ball ? speedLimit(ball, params) : params.maxVelocity
+      const intensity = 'speed' in event ? event.speed / limit : 1
+      audio.impact(surface, intensity)
+    }
+  }
+
+  const triggerHaptic = (events: CollisionEvent[], balls: Ball[], params: PhysicsParams) => {
+    const style = hapticStyleForEvents(events, balls, params)
+    if (style) {
+      hapticsRef.current?.pulse(style)
+    }
+  }
+
+  // Haptics-only mode falls back to sound when the device can't vibrate
+  const handleCollisionFeedback = (events: CollisionEvent[], balls: Ball[], params: PhysicsParams) => {
+    effectsRef.current.collide(events, balls, params, performance.now())
+    const canVibrate = hapticsRef.current?.available ?? false
+    if (settings.feedback !== 'audio' && canVibrate) {
+      triggerHaptic(events, balls, params)
+    }
+    if (settings.feedback !== 'haptics' || !canVibrate) {
+      playImpacts(events, balls, params)
+    }
+  }
+
+  // Check haptics support with CSP-safe error handling
+  useEffect(() => {
+    const checkHapticsSupport = async () => {
+      try {
+        // Add timeout to prevent hanging on blocked network requests
+        const capabilities = await withTimeout(sdk.getCapabilities(), 3000)
+        debugRef.current.capabilitiesChecked(capabilities)
+        setCanComposeCast(Array.isArray(capabilities) && capabilities.includes(COMPOSE_CAST_CAPABILITY))
+        
+        const backend = detectHapticBackend(capabilities)
+        hapticsRef.current = backend ? createHapticsPlayer(backend) : null
+        setHapticsSupported(backend !== null)
+        console.log('Haptics capabilities checked successfully:', backend)
+      } catch (error) {
+        // This could fail due to CSP restrictions - the browser may still be able to vibrate
+        console.log('Haptics check failed (possibly CSP-related):', error)
+        debugRef.current.capabilitiesFailed(error)
+        const backend = detectHapticBackend(null)
+        hapticsRef.current = backend ? createHapticsPlayer(backend) : null
+        setHapticsSupported(backend !== null)
+      } finally {
+        setAppLoadingState(prev => ({ ...prev, hapticsChecked: true }))
+      }
+    }
+    
+    checkHapticsSupport()
+    return () => hapticsRef.current?.cancel()
+  }, [])
+
+  // Scores go to the Farcaster user inside a client, otherwise to a guest id kept on this device
+  useEffect(() => {
+    const resolvePlayer = async () => {
+      try {
+        const context = await withTimeout(sdk.context, 3000)
+        setAddAppStatus(initialAddAppStatus(context?.client))
+        setHostInsets(parseSafeAreaInsets(context?.client?.safeAreaInsets))
+        const user = context?.user
+        if (user && typeof user.fid === 'number') {
+          setPlayer({ type: 'farcaster', fid: user.fid, username: user.username ?? null })
+          return
+        }
+      } catch (error) {
+        console.log('Farcaster context unavailable, playing as a guest:', error)
+      }
+      setPlayer({ type: 'guest', guestId: loadGuestId() })
+    }
+
+    resolvePlayer()
+  }, [])
+
+  // A ?room= link drops the player straight into that room once we know who they are
+  useEffect(() => {
+    if (!player || !settingsLoadedRef.current || autoJoinedRef.current) return
+    autoJoinedRef.current = true
+    const room = new URLSearchParams(window.location.search).get('room')
+    if (room) joinRoom(room)
+  }, [player])
+
+  useEffect(() => () => multiplayerRef.current?.close(), [])
+
+  // Restore saved settings, letting a shared link override them
+  useEffect(() => {
+    setSettings(resolveInitialSettings(window.location.search))
+    setDebugOpen(debugFlagFromQuery(window.location.search))
+    settingsLoadedRef.current = true
+    setSavedTraces(loadSavedTraces())
+    setSurfaces(loadSurfaces())
+    statsRef.current = createStatsTracker(loadStats())
+  }, [])
+
+  // Save lifetime stats as play goes on, and before the page goes away
+  useEffect(() => {
+    const save = () => {
+      if (statsRef.current.takeChanged()) saveStats(statsRef.current.stats)
+    }
+    const saveWhenHidden = () => {
+      if (document.visibilityState === 'hidden') save()
+    }
+    const timer = setInterval(save, STATS_SAVE_MS)
+    document.addEventListener('visibilitychange', saveWhenHidden)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', saveWhenHidden)
+      save()
+    }
+  }, [])
+
+  // Farcaster users' stats follow them between devices; guests keep theirs on this one
+  useEffect(() => {
+    if (player?.type !== 'farcaster') return
+    const { fid } = player
+    let cancelled = false
+    let syncedAt = -1
+    const sync = async () => {
+      const { stats } = statsRef.current
+      if (stats.updatedAt === syncedAt) return
+      try {
+        const merged = await uploadStats(fid, stats)
+        if (cancelled) return
+        statsRef.current.merge(merged)
+        syncedAt = statsRef.current.stats.updatedAt
+        setStatsSync('synced')
+      } catch (error) {
+        console.log('Stats sync failed:', error)
+        if (!cancelled) setStatsSync('failed')
+      }
+    }
+    sync()
+    const timer = setInterval(sync, STATS_SYNC_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [player])
+
+  useEffect(() => {
+    if (settingsLoadedRef.current) {
+      saveSettings(settings)
+    }
+    // Traces replay with the settings they started with
+    stopRecording()
+  }, [settings])
+
+  // The first ball always wears the chosen colour
+  useEffect(() => {
+    const { balls } = simulationRef.current.state
+    balls[0] = { ...balls[0], color: settings.ballColor }
+  }, [settings.ballColor])
+
+  // The first ball is the chosen size; every ball is made of the chosen material
+  useEffect(() => {
+    const { state } = simulationRef.current
+    state.balls = state.balls.map((ball, index) => {
+      const radius = index === 0 ? radiusForDiameter(settings.ballSize, pixelsPerMetre) : ball.radius
+      return { ...ball, radius, mass: massForRadius(radius, settings.ballKind, pixelsPerMetre) }
+    })
+  }, [settings.ballSize, settings.ballKind, pixelsPerMetre])
+
+  // Initialize canvas size based on viewport
+  useEffect(() => {
+    const updateCanvasSize = () => {
+      const insets = readCssSafeAreaInsets()
+      const { width, height } = insetBounds({ width: window.innerWidth, height: window.innerHeight }, insets)
+      // Traces replay in the arena size they were recorded at
+      stopRecording()
+      setCanvasSize({ width: window.innerWidth, height: window.innerHeight })
+      setCssInsets(insets)
+      setPixelsPerMetre(readPixelsPerMetre())
+      
+      // Center ball on first load or update positions if outside bounds
+      const { state } = simulationRef.current
+      const isFirstLoad = state.balls.length === 1 && state.balls[0].x === 200 && state.balls[0].y === 200
+      state.balls = state.balls.map(prevBall => ({
+        ...prevBall,
+        x: isFirstLoad ? width / 2 : Math.min(prevBall.x, width - prevBall.radius),
+        y: isFirstLoad ? height / 2 : Math.min(prevBall.y, height - prevBall.radius)
+      }))
+      
+      // Mark canvas as initialized
+      setAppLoadingState(prev => ({ ...prev, canvasInitialized: true }))
+    }
+
+    updateCanvasSize()
+    window.addEventListener('resize', updateCanvasSize)
+    return () => window.removeEventListener('resize', updateCanvasSize)
+  }, [])
+
+  // Painted surfaces belong to free play; challenges keep the plain arena so scores compare
+  const activeSurfaces = (mode: GameMode) => (mode === 'free' ? surfaces : [])
+
+  const withSurfaces = (layout: ArenaLayout, mode: GameMode): ArenaLayout => ({
+    ...layout,
+    surfaces: resolveSurfaces(activeSurfaces(mode), arenaSize)
+  })
+
+  // Rescale level geometry whenever the arena changes size or shape
+  useEffect(() => {
+    const layout = level ? resolveLevel(level, arenaSize) : EMPTY_LAYOUT
+    layoutRef.current = withSurfaces(withArenaShape(layout, settings.arena, arenaSize), gameMode)
+  }, [level, arenaSize.width, arenaSize.height, settings.arena, surfaces, gameMode])
+
+  // Browsers only allow audio to start from a user interaction
+  const initAudioContext = () => {
+    if (!audioRef.current) {
+      audioRef.current = createAudioEngine(audioSettingsForSettings(settings))
+    }
+    audioRef.current.init()
+  }
+
+  useEffect(() => {
+    audioRef.current?.configure(audioSettingsForSettings(settings))
+  }, [settings.audioPitch, settings.masterVolume, settings.muted])
+
+  useEffect(() => {
+    effectsRef.current.configure(effectsSettingsForSettings(settings, prefersReducedMotion))
+  }, [settings.trails, settings.squash, settings.particles, settings.reducedEffects, prefersReducedMotion])
+
+  // Don't leave the rolling sound running in a background tab
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        audioRef.current?.suspend()
+      } else {
+        audioRef.current?.init()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
+  const requestDeviceMotionPermission = async (source: TiltSourceId = 'motion') => {
+    if (typeof window === 'undefined') return
+    
+    setIsRequestingPermission(true)
+    setPermissionDenied(false)
+    
+    try {
+      // Check if we're on HTTPS or localhost
+      const isSecureContext = window.location.protocol === 'https:' || 
+                             window.location.hostname === 'localhost' ||
+                             window.location.hostname === '127.0.0.1'
+      
+      if (!isSecureContext) {
+        alert('Device motion requires HTTPS. Please access the app via HTTPS.')
+        setIsRequestingPermission(false)
+        return
+      }
+
+      // Both sensor events share the same permission flow
+      const eventName = source === 'motion' ? 'DeviceMotionEvent' : 'DeviceOrientationEvent'
+      if (eventName in window) {
+        const SensorEvent = (window as any)[eventName]
+        // Check if permission API is available (iOS 13+)
+        if (typeof SensorEvent.requestPermission === 'function') {
+          try {
+            const permission = await SensorEvent.requestPermission()
+            if (permission === 'granted') {
+              initAudioContext()
+              setPermissionGranted(true)
+              setInputSource(source)
+            } else {
+              setPermissionDenied(true)
+              console.log('Device motion permission denied')
+            }
+          } catch (error) {
+            console.error('Error requesting device motion permission:', error)
+            setPermissionDenied(true)
+          }
+        } else {
+          // For Android devices and other browsers that don't require permission
+          initAudioContext()
+          setPermissionGranted(true)
+          setInputSource(source)
+        }
+      } else {
+        alert('Device motion is not supported on this device')
+        setPermissionDenied(true)
+      }
+    } catch (error) {
+      console.error('Unexpected error:', error)
+      setPermissionDenied(true)
+    } finally {
+      setIsRequestingPermission(false)
+    }
+  }
+
+  const stopCalibration = () => {
+    if (calibrationTimerRef.current) {
+      clearInterval(calibrationTimerRef.current)
+      calibrationTimerRef.current = null
+    }
+    setIsCalibrating(false)
+  }
+
+  // Swap the active input provider, detaching the previous one's listeners
+  useEffect(() => {
+    const provider = createInputProvider(inputSource, tiltSettingsRef.current)
+    provider.start()
+    inputRef.current = provider
+    return () => {
+      stopCalibration()
+      provider.stop()
+      if (inputRef.current === provider) {
+        inputRef.current = null
+      }
+    }
+  }, [inputSource])
+
+  // Sensor samples only feed the debug overlay while it's open
+  useEffect(() => {
+    const provider = inputRef.current
+    if (!isTiltProvider(provider)) return
+    provider.observe(debugOpen ? sample => debugRef.current.sensor(sample) : null)
+    return () => provider.observe(null)
+  }, [inputSource, debugOpen])
+
+  // Retune the running sensor provider without restarting its listeners
+  useEffect(() => {
+    tiltSettingsRef.current = tiltSettings
+    if (isTiltProvider(inputRef.current)) {
+      inputRef.current.configure(tiltSettings)
+    }
+  }, [tiltSettings])
+
+  // Average the smoothed tilt while the phone is held at its "flat" angle, then use it as the neutral offset
+  const startCalibration = () => {
+    const provider = inputRef.current
+    if (!isTiltProvider(provider)) return
+
+    const CALIBRATION_MS = 1500
+    const samples: Vector[] = []
+    const startedAt = performance.now()
+    setIsCalibrating(true)
+
+    calibrationTimerRef.current = setInterval(() => {
+      samples.push(provider.readUncalibrated())
+      if (performance.now() - startedAt >= CALIBRATION_MS) {
+        stopCalibration()
+        setTiltSettings(prev => ({ ...prev, offset: averageVectors(samples) }))
+      }
+    }, 50)
+  }
+
+  // Sensors need a permission prompt first; every other source can be switched to directly
+  const selectInputSource = (id: InputSourceId) => {
+    if (isTiltSource(id) && !permissionGranted) {
+      requestDeviceMotionPermission(id)
+      return
+    }
+    initAudioContext()
+    setInputSource(id)
+  }
+
+  // Replays were counted when they were played, so only live frames reach here
+  const trackStats = (frame: StatsFrame, elapsedMs: number, params: PhysicsParams) => {
+    const unlocked = statsRef.current.record(frame, elapsedMs, params)
+    toastsRef.current.push(...unlocked.map(achievement => ({ achievement, shownAt: null })))
+  }
+
+  const updateReplay = (replay: ReplayPlayer, elapsedMs: number) => {
+    if (replayPaused) {
+      audioRef.current?.setRolling(0)
+      return
+    }
+
+    const events = replay.advance(elapsedMs)
+    if (scrubberRef.current) {
+      scrubberRef.current.value = String(replay.position)
+    }
+    if (replay.finished) {
+      setReplayPaused(true)
+    }
+    orientationsRef.current.update(replay.state.balls, elapsedMs)
+    audioRef.current?.setRolling(rollingLevel(replay.state.balls, physicsParams))
+    handleCollisionFeedback(events, replay.state.balls, physicsParams)
+  }
+
+  // The server owns every ball in a room; this frame only predicts our own
+  const updateMultiplayer = (client: MultiplayerClient, elapsedMs: number) => {
+    const tilt = inputRef.current?.read(performance.now()) ?? { x: 0, y: 0 }
+    const { state, events } = client.advance(elapsedMs, tilt)
+    multiplayerStateRef.current = state
+    orientationsRef.current.update(state.balls, elapsedMs)
+    // Only our own ball counts towards our stats
+    trackStats(
+      { balls: state.balls.slice(0, 1), zones: state.zones.slice(0, 1), events: events.filter(event => event.ball === 0) },
+      elapsedMs,
+      DEFAULT_PHYSICS_PARAMS
+    )
+    audioRef.current?.setRolling(rollingLevel(state.balls.slice(0, 1), DEFAULT_PHYSICS_PARAMS))
+    handleCollisionFeedback(events, state.balls, DEFAULT_PHYSICS_PARAMS)
+  }
+
+  const updateBall = (elapsedMs: number) => {
+    const replay = replayRef.current
+    if (replay) {
+      updateReplay(replay, elapsedMs)
+      return
+    }
+    const multiplayerClient = multiplayerRef.current
+    if (multiplayerClient) {
+      updateMultiplayer(multiplayerClient, elapsedMs)
+      return
+    }
+
+    // Touch moves balls outside the trace, so it ends a recording like any other outside change
+    const pointer = pointerRef.current
+    const grabs = pointer.grabs(performance.now())
+    const impulses = pointer.takeImpulses()
+    if (grabs.length > 0 || impulses.length > 0) stopRecording()
+
+    // Tilt determines acceleration, not velocity directly.
+    // While recording, physics sees exactly the rounded tilt that goes into the trace.
+    const recorder = recorderRef.current
+    const rawTilt = inputRef.current?.read(performance.now()) ?? { x: 0, y: 0 }
+    const tilt = recorder ? quantizeTilt(rawTilt) : rawTilt
+    const acceleration = accelerationForTilt(tilt, physicsParams)
+
+    // Held balls are pinned before the steps and again after, so they stay under the finger
+    const touched = applyPointerControls(simulationRef.current.state, grabs, impulses, arenaSize, layoutRef.current)
+    const { simulation, events, steps } = advanceSimulation(
+      { ...simulationRef.current, state: touched },
+      elapsedMs,
+      acceleration,
+      arenaSize,
+      physicsParams,
+      layoutRef.current
+    )
+    simulation.state = applyPointerControls(simulation.state, grabs, [], arenaSize, layoutRef.current)
+    simulationRef.current = simulation
+    orientationsRef.current.update(simulation.state.balls, elapsedMs)
+    recorder?.record(steps, tilt)
+    trackStats({ balls: simulation.state.balls, zones: simulation.state.zones, events }, elapsedMs, physicsParams)
+
+    if (events.some(event => event.type === 'goal')) {
+      goalReachedAtRef.current = performance.now()
+    }
+
+    const challenge = challengeRef.current
+    if (challenge && !challenge.finished) {
+      const nextChallenge = updateChallenge(challenge, elapsedMs, simulation.state.balls, events, arenaSize, layoutRef.current)
+      challengeRef.current = nextChallenge
+      if (nextChallenge.finished) {
+        const result = challengeResult(nextChallenge)
+        setLastChallengeResult(result)
+        submitChallengeResult(result)
+      }
+    }
+
+    audioRef.current?.setRolling(rollingLevel(simulation.state.balls, physicsParams))
+    handleCollisionFeedback(events, simulation.state.balls, physicsParams)
+  }
+
+  // Save what was recorded so far; anything that changes the run outside the trace ends the recording
+  const stopRecording = () => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    recorderRef.current = null
+    setIsRecording(false)
+    const trace = recorder.finish()
+    if (trace.frames.length > 0) {
+      setSavedTraces(saveTrace(trace))
+    }
+  }
+
+  const startRecording = () => {
+    const { state } = simulationRef.current
+    recorderRef.current = createRecorder({
+      settings,
+      arena: { ...arenaSize },
+      pixelsPerMetre,
+      levelId: level?.id ?? null,
+      surfaces: activeSurfaces(gameMode),
+      balls: state.balls
+    })
+    setIsRecording(true)
+  }
+
+  const startReplay = async (trace: MotionTrace) => {
+    setReplayError(null)
+    stopRecording()
+    let layout = EMPTY_LAYOUT
+    if (trace.levelId) {
+      try {
+        layout = resolveLevel(await loadLevel(trace.levelId), trace.arena)
+      } catch (error) {
+        console.log('Replay level failed to load:', error)
+        setReplayError('Could not load the level for this replay')
+        return
+      }
+    }
+    challengeRef.current = null
+    setLastChallengeResult(null)
+    setGameMode('free')
+    effectsRef.current.reset()
+    orientationsRef.current.reset()
+    pointerRef.current.reset()
+    statsRef.current.interrupt()
+    replayRef.current = createReplayPlayer(trace, {
+      ...withArenaShape(layout, trace.settings.arena, trace.arena),
+      surfaces: resolveSurfaces(trace.surfaces, trace.arena)
+    })
+    setReplayFrameCount(replayRef.current.frameCount)
+    setReplayPaused(false)
+    setMenuOpen(false)
+  }
+
+  // Live play resumes exactly where it was left
+  const exitReplay = () => {
+    effectsRef.current.reset()
+    orientationsRef.current.reset()
+    replayRef.current = null
+    setReplayFrameCount(null)
+    setReplayPaused(false)
+  }
+
+  // Rooms replace the local arena until the player leaves; the local balls wait where they were
+  const joinRoom = (code: string) => {
+    const room = normalizeRoomCode(code)
+    if (!room) {
+      setRoomError('Room codes are 4-8 letters or digits')
+      return
+    }
+    stopRecording()
+    exitReplay()
+    startFreePlay()
+    multiplayerRef.current?.close()
+    statsRef.current.interrupt()
+    setRoomError(null)
+    setRoomInput(room)
+    initAudioContext()
+
+    const client: MultiplayerClient = createMultiplayerClient({
+      url: multiplayerUrl(window.location),
+      room,
+      name: player ? playerName(player) : 'Guest',
+      color: settings.ballColor,
+      onChange: () => {
+        if (multiplayerRef.current !== client) return
+        setMultiplayer({ room, players: client.players, connected: client.status === 'connected', error: client.error })
+      }
+    })
+    multiplayerRef.current = client
+    multiplayerStateRef.current = null
+    effectsRef.current.reset()
+    orientationsRef.current.reset()
+    pointerRef.current.reset()
+    setMultiplayer({ room, players: [], connected: false, error: null })
+    setMenuOpen(false)
+  }
+
+  const leaveRoom = () => {
+    multiplayerRef.current?.close()
+    multiplayerRef.current = null
+    multiplayerStateRef.current = null
+    effectsRef.current.reset()
+    orientationsRef.current.reset()
+    setMultiplayer(null)
+  }
+
+  const toggleReplayPaused = () => {
+    const replay = replayRef.current
+    if (!replay) return
+    if (replayPaused && replay.finished) {
+      replay.seek(0)
+    }
+    setReplayPaused(!replayPaused)
+  }
+
+  const seekReplay = (frame: number) => {
+    replayRef.current?.seek(frame)
+  }
+
+  const importTrace = async (file: File) => {
+    setReplayError(null)
+    try {
+      const trace = parseTrace(JSON.parse(await file.text()))
+      setSavedTraces(saveTrace(trace))
+      startReplay(trace)
+    } catch (error) {
+      console.log('Replay import failed:', error)
+      setReplayError('That file is not a FidgetBall replay')
+    }
+  }
+
+  const spawnBall = () => {
+    stopRecording()
+    const { state } = simulationRef.current
+    if (state.balls.length >= MAX_BALLS) return
+
+    // Extra balls come in a spread of sizes around the chosen one
+    const radius = radiusForDiameter(settings.ballSize, pixelsPerMetre) * (0.6 + Math.random() * 0.6)
+    const ball: Ball = {
+      x: radius + Math.random() * (arenaSize.width - radius * 2),
+      y: radius + Math.random() * (arenaSize.height - radius * 2),
+      vx: 0,
+      vy: 0,
+      spin: 0,
+      radius,
+      color: BALL_PALETTE[(state.balls.length - 1) % BALL_PALETTE.length],
+      mass: massForRadius(radius, settings.ballKind, pixelsPerMetre)
+    }
+    simulationRef.current.state = addBall(state, ball)
+    setBallCount(simulationRef.current.state.balls.length)
+  }
+
+  // Keep only the original ball
+  const clearBalls = () => {
+    stopRecording()
+    const { state } = simulationRef.current
+    simulationRef.current.state = {
+      balls: state.balls.slice(0, 1),
+      zones: state.zones.slice(0, 1),
+      goals: state.goals.slice(0, 1)
+    }
+    pointerRef.current.reset()
+    setBallCount(1)
+  }
+
+  // Load a bundled level (or the open arena for an empty id) and move every ball to its spawn
+  const selectLevel = async (id: string) => {
+    stopRecording()
+    setLevelError(null)
+    let nextLevel: LevelDefinition | null = null
+
+    if (id) {
+      try {
+        nextLevel = await loadLevel(id)
+      } catch (error) {
+        console.log('Level failed to load:', error)
+        setLevelError('Could not load that level')
+        return
+      }
+    }
+
+    const layout = withSurfaces(
+      withArenaShape(nextLevel ? resolveLevel(nextLevel, arenaSize) : EMPTY_LAYOUT, settings.arena, arenaSize),
+      gameMode
+    )
+    const spawn = layout.spawn ?? { x: arenaSize.width / 2, y: arenaSize.height / 2 }
+    const { state } = simulationRef.current
+    simulationRef.current.state = {
+      balls: state.balls.map(ball => ({ ...ball, x: spawn.x, y: spawn.y, vx: 0, vy: 0 })),
+      zones: state.balls.map(() => createZones()),
+      goals: state.balls.map(() => null)
+    }
+    layoutRef.current = layout
+    pointerRef.current.reset()
+    statsRef.current.interrupt()
+    goalReachedAtRef.current = null
+    setLevel(nextLevel)
+  }
+
+  // Challenges always run in the open arena so targets can't land inside obstacles
+  const startChallenge = async () => {
+    await selectLevel('')
+    challengeRef.current = createChallenge(arenaSize, simulationRef.current.state.balls, layoutRef.current)
+    setLastChallengeResult(null)
+    setGameMode('challenge')
+    setMenuOpen(false)
+  }
+
+  const statsSyncLabel = () => {
+    if (player?.type !== 'farcaster') return 'Saved on this device'
+    if (statsSync === 'synced') return 'Synced to your Farcaster account'
+    return statsSync === 'failed' ? 'Saved on this device; syncing failed' : 'Syncing…'
+  }
+
+  const submitChallengeResult = async (result: ChallengeResult) => {
+    setSubmittedRank(null)
+    if (!player) return
+    try {
+      const entry = await submitScore({ player, result })
+      setSubmittedRank(entry?.rank ?? null)
+      setLeaderboardRefresh(prev => prev + 1)
+    } catch (error) {
+      console.log('Score submission failed:', error)
+    }
+  }
+
+  const startFreePlay = () => {
+    challengeRef.current = null
+    setLastChallengeResult(null)
+    setGameMode('free')
+  }
+
+  const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }))
+  }
+
+  // Copy a link that opens the game with exactly these physics
+  const copySettingsLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}?${encodeSettingsQuery(settings)}`
+    try {
+      await navigator.clipboard.writeText(url)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      console.log('Clipboard not available:', error)
+      window.prompt('Copy this link:', url)
+    }
+  }
+
+  // Cast the current run with a snapshot of the arena; the link reopens it with the same settings
+  const shareCurrentRun = async (result: ChallengeResult | null) => {
+    if (shareStatus === 'sharing') return
+    setShareStatus('sharing')
+    const canvas = canvasRef.current
+    const outcome = await shareRun({
+      text: shareText(result),
+      url: shareUrl(window.location.origin, settings, level?.id ?? null, result?.score ?? null),
+      snapshot: canvas ? await canvasSnapshot(canvas) : null,
+      canComposeCast
+    })
+    setShareStatus(outcome)
+    setTimeout(() => setShareStatus(null), 2000)
+  }
+
+  // Adding the app is how players opt in to the daily challenge reminders
+  const addAppForReminders = async () => {
+    if (addAppStatus === 'adding') return
+    setAddAppStatus('adding')
+    setAddAppStatus(await addApp())
+  }
+
+  const addAppLabel = () => {
+    switch (addAppStatus) {
+      case 'adding':
+        return 'Waiting for the app...'
+      case 'added':
+        return 'Enable Daily Reminders'
+      case 'rejected':
+        return 'Not added, tap to retry'
+      case 'failed':
+        return 'Could not add, tap to retry'
+      default:
+        return 'Add App for Daily Reminders'
+    }
+  }
+
+  const shareLabel = (idleLabel: string) => {
+    switch (shareStatus) {
+      case 'sharing':
+        return 'Sharing...'
+      case 'cast':
+      case 'shared':
+        return 'Shared!'
+      case 'copied':
+        return 'Link copied!'
+      case 'failed':
+        return 'Could not share'
+      default:
+        return idleLabel
+    }
+  }
+
+  // Holding the menu button toggles the debug overlay instead of the menu
+  const startMenuLongPress = () => {
+    longPressFiredRef.current = false
+    longPressTimerRef.current = setTimeout(() => {
+      longPressFiredRef.current = true
+      setDebugOpen(open => !open)
+    }, LONG_PRESS_MS)
+  }
+
+  const cancelMenuLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current)
+      longPressTimerRef.current = null
+    }
+  }
+
+  const handleMenuButtonClick = () => {
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false
+      return
+    }
+    setMenuOpen(!menuOpen)
+  }
+
+  // Canvas pixels match CSS pixels, so a pointer only needs shifting into arena coordinates
+  const arenaPoint = (event: React.PointerEvent<HTMLCanvasElement>): Vector => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left - safeArea.left, y: event.clientY - rect.top - safeArea.top }
+  }
+
+  // Replays and rooms aren't ours to push around, and keeping hands off during a challenge keeps scores fair
+  const canTouchBalls = () => !replayRef.current && !multiplayerRef.current && !challengeRef.current
+
+  // A changed layout is a different arena, so a recording in progress could no longer replay
+  const updateSurfaces = (next: SurfaceDefinition[]) => {
+    stopRecording()
+    setSurfaces(next)
+    saveSurfaces(next)
+  }
+
+  // The layout a drag leaves behind (the dragged surface moved, or a new one painted on top) and what ends up selected
+  const draggedSurfaces = (drag: SurfaceDrag): { surfaces: SurfaceDefinition[]; selected: number | null } => {
+    const { moving, start, current } = drag
+    if (moving !== null) {
+      const offset = { x: current.x - start.x, y: current.y - start.y }
+      if (offset.x === 0 && offset.y === 0) return { surfaces, selected: moving }
+      return {
+        surfaces: surfaces.map((surface, index) => (index === moving ? moveSurface(surface, offset, arenaSize) : surface)),
+        selected: moving
+      }
+    }
+    const painted = surfaceTool === 'select' || surfaces.length >= MAX_SURFACES
+      ? null
+      : paintedSurface(surfaceTool, start, current, arenaSize)
+    return painted ? { surfaces: [...surfaces, painted], selected: surfaces.length } : { surfaces, selected: selectedSurface }
+  }
+
+  // While editing, the canvas paints and drags surfaces instead of touching balls
+  const handleEditorPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (surfaceDragRef.current) return
+    const point = arenaPoint(event)
+    let moving: number | null = null
+    if (surfaceTool === 'select') {
+      moving = surfaceAt(surfaces, point, arenaSize)
+      setSelectedSurface(moving)
+      if (moving === null) return
+    }
+    surfaceDragRef.current = { pointerId: event.pointerId, start: point, current: point, moving }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const updateSelectedSurface = (update: (surface: SurfaceDefinition) => SurfaceDefinition) => {
+    if (selectedSurface === null) return
+    updateSurfaces(surfaces.map((surface, index) => (index === selectedSurface ? update(surface) : surface)))
+  }
+
+  const deleteSelectedSurface = () => {
+    if (selectedSurface === null) return
+    updateSurfaces(surfaces.filter((_, index) => index !== selectedSurface))
+    setSelectedSurface(null)
+  }
+
+  const clearSurfaces = () => {
+    updateSurfaces([])
+    setSelectedSurface(null)
+  }
+
+  const openSurfaceEditor = () => {
+    pointerRef.current.reset()
+    setSurfaceTool('select')
+    setSelectedSurface(null)
+    setEditingSurfaces(true)
+    setMenuOpen(false)
+  }
+
+  const closeSurfaceEditor = () => {
+    surfaceDragRef.current = null
+    setSelectedSurface(null)
+    setEditingSurfaces(false)
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canTouchBalls()) return
+    if (editingSurfaces) {
+      handleEditorPointerDown(event)
+      return
+    }
+    initAudioContext()
+    const { balls } = simulationRef.current.state
+    if (pointerRef.current.down(event.pointerId, arenaPoint(event), event.pointerType, event.timeStamp, balls)) {
+      // Keep receiving moves when the finger slides off the canvas onto the menu
+      event.currentTarget.setPointerCapture(event.pointerId)
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = surfaceDragRef.current
+    if (drag?.pointerId === event.pointerId) {
+      drag.current = arenaPoint(event)
+      return
+    }
+    pointerRef.current.move(event.pointerId, arenaPoint(event), event.timeStamp)
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = surfaceDragRef.current
+    if (drag?.pointerId === event.pointerId) {
+      surfaceDragRef.current = null
+      const result = draggedSurfaces({ ...drag, current: arenaPoint(event) })
+      if (result.surfaces !== surfaces) updateSurfaces(result.surfaces)
+      setSelectedSurface(result.selected)
+      return
+    }
+    pointerRef.current.up(event.pointerId, arenaPoint(event), event.timeStamp, simulationRef.current.state.balls)
+  }
+
+  // A cancelled gesture leaves the layout as it was
+  const handlePointerCancel = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (surfaceDragRef.current?.pointerId === event.pointerId) surfaceDragRef.current = null
+    pointerRef.current.cancel(event.pointerId)
+  }
+
+  const draw = () => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const theme = resolveTheme(settings.theme, prefersDark)
+    paintBackground(ctx, theme, canvasSize.width, canvasSize.height)
+
+    // Replays run in the arena they were recorded in and rooms in the shared one, scaled to fit this screen's safe area
+    const replay = replayRef.current
+    const multiplayerClient = multiplayerRef.current
+    const layout = replay ? replay.layout : multiplayerClient ? EMPTY_LAYOUT : layoutRef.current
+    const { balls } = replay
+      ? replay.state
+      : multiplayerClient
+        ? multiplayerStateRef.current ?? { balls: [] }
+        : simulationRef.current.state
+    const arena = replay ? replay.trace.arena : multiplayerClient?.arena
+    ctx.save()
+    ctx.translate(safeArea.left, safeArea.top)
+    let scale = 1
+    if (arena) {
+      scale = Math.min(arenaSize.width / arena.width, arenaSize.height / arena.height)
+      ctx.translate((arenaSize.width - arena.width * scale) / 2, (arenaSize.height - arena.height * scale) / 2)
+      ctx.scale(scale, scale)
+      if (!layout.walls) {
+        ctx.strokeStyle = theme.arenaOutline
+        ctx.lineWidth = 1 / scale
+        ctx.strokeRect(0, 0, arena.width, arena.height)
+      }
+    }
+
+    // Shade the corners a shaped arena can't reach, then outline its walls
+    if (layout.walls) {
+      const bounds = arena ?? arenaSize
+      traceArenaPath(ctx, layout.walls)
+      ctx.rect(0, 0, bounds.width, bounds.height)
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)'
+      ctx.fill('evenodd')
+      traceArenaPath(ctx, layout.walls)
+      ctx.strokeStyle = theme.arenaOutline
+      ctx.lineWidth = 2 / scale
+      ctx.stroke()
+    }
+
+    // Painted ground lies under everything else; while editing, show the gesture in progress
+    const now = performance.now()
+    const surfaceDrag = surfaceDragRef.current
+    if (editingSurfaces && canTouchBalls()) {
+      const preview = surfaceDrag ? draggedSurfaces(surfaceDrag) : { surfaces, selected: selectedSurface }
+      paintSurfaces(ctx, resolveSurfaces(preview.surfaces, arenaSize), now, preview.selected)
+    } else {
+      paintSurfaces(ctx, layout.surfaces, now)
+    }
+
+    // Draw level geometry: goals underneath, then holes, then solid obstacles
+    for (const goal of layout.goals) {
+      ctx.fillStyle = 'rgba(85, 239, 196, 0.25)'
+      ctx.fillRect(goal.x, goal.y, goal.width, goal.height)
+      ctx.strokeStyle = 'rgba(85, 239, 196, 0.8)'
+      ctx.lineWidth = 2
+      ctx.strokeRect(goal.x, goal.y, goal.width, goal.height)
+    }
+
+    for (const hole of layout.holes) {
+      ctx.beginPath()
+      ctx.arc(hole.x, hole.y, hole.radius, 0, Math.PI * 2)
+      ctx.fillStyle = theme.hole
+      ctx.fill()
+    }
+
+    ctx.fillStyle = theme.obstacle
+    ctx.strokeStyle = theme.obstacle
+    ctx.lineWidth = 3
+    ctx.lineCap = 'round'
+    for (const obstacle of layout.obstacles) {
+      ctx.beginPath()
+      if (obstacle.type === 'rect') {
+        ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height)
+      } else if (obstacle.type === 'circle') {
+        ctx.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2)
+        ctx.fill()
+      } else {
+        ctx.moveTo(obstacle.x1, obstacle.y1)
+        ctx.lineTo(obstacle.x2, obstacle.y2)
+        ctx.stroke()
+      }
+    }
+
+    // Draw challenge targets under the balls
+    const challenge = challengeRef.current
+    if (challenge) {
+      for (const target of challenge.targets) {
+        ctx.beginPath()
+        ctx.arc(target.x, target.y, target.radius, 0, Math.PI * 2)
+        ctx.fillStyle = 'rgba(255, 230, 109, 0.2)'
+        ctx.fill()
+        ctx.strokeStyle = '#ffe66d'
+        ctx.lineWidth = 2
+        ctx.stroke()
+      }
+    }
+
+    const effects = effectsRef.current
+    effects.drawTrails(ctx, balls, now)
+    balls.forEach((ball, index) => {
+      const squash = effects.squash(index, now)
+      const seam = orientationsRef.current.seam(index)
+      if (!squash) {
+        paintBall(ctx, theme.ball, ball, seam)
+        return
+      }
+      ctx.save()
+      ctx.translate(ball.x, ball.y)
+      // Squash along the wall's normal, then turn back so the highlight stays put
+      ctx.rotate(squash.angle)
+      ctx.scale(squash.along, squash.across)
+      ctx.rotate(-squash.angle)
+      paintBall(ctx, theme.ball, { ...ball, x: 0, y: 0 }, seam)
+      ctx.restore()
+    })
+    effects.drawParticles(ctx, now)
+
+    if (debugOpen) {
+      debugRef.current.drawArena(ctx, balls, layout.walls, arena ?? arenaSize, physicsParams.collisionZoneSize)
+    }
+
+    // In a room our own ball is always drawn first; ring it so it stands out
+    const ownBall = multiplayerClient ? balls[0] : undefined
+    if (ownBall) {
+      ctx.beginPath()
+      ctx.arc(ownBall.x, ownBall.y, ownBall.radius + 3, 0, Math.PI * 2)
+      ctx.strokeStyle = theme.text
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+
+    ctx.restore()
+
+    // Flash a message for a moment after reaching a goal
+    const goalReachedAt = goalReachedAtRef.current
+    if (goalReachedAt !== null && performance.now() - goalReachedAt < 1500) {
+      ctx.fillStyle = '#55efc4'
+      ctx.font = `bold ${Math.min(canvasSize.width, canvasSize.height) / 10}px ${theme.font}`
+      ctx.fillText('Goal!', canvasSize.width / 2, canvasSize.height / 3)
+    }
+
+    // The HUD stays inside the safe area too
+    const hudRight = safeArea.left + arenaSize.width - 20
+    const hudTop = safeArea.top + 20
+
+    toastsRef.current = drawAchievementToasts(ctx, toastsRef.current, safeArea.left + arenaSize.width / 2, hudTop, theme.font, now)
+
+    // Challenge HUD: time left, score and the current combo multiplier
+    if (challenge) {
+      const fontSize = Math.max(14, Math.min(canvasSize.width, canvasSize.height) / 24)
+      ctx.fillStyle = theme.text
+      ctx.font = `bold ${fontSize}px ${theme.font}`
+      ctx.textAlign = 'right'
+      ctx.textBaseline = 'top'
+      ctx.fillText(`${Math.ceil(remainingMs(challenge) / 1000)}s`, hudRight, hudTop)
+      ctx.fillText(`${challenge.score}`, hudRight, hudTop + fontSize * 1.3)
+      if (challenge.combo > 1) {
+        ctx.fillStyle = '#ffe66d'
+        ctx.fillText(`x${comboMultiplier(challenge.combo)}`, hudRight, hudTop + fontSize * 2.6)
+      }
+    }
+
+    // Recording indicator
+    const recorder = recorderRef.current
+    if (recorder) {
+      ctx.fillStyle = '#ff4757'
+      ctx.font = `bold 14px ${theme.font}`
+      ctx.textAlign = 'right'
+      ctx.textBaseline = 'top'
+      ctx.fillText(`● REC ${Math.floor(recorder.durationMs() / 1000)}s`, hudRight, hudTop)
+    }
+
+    if (debugOpen) {
+      debugRef.current.drawPanel(ctx, safeArea.left + 10, safeArea.top + arenaSize.height - 10, appLoadingState, now)
+    }
+  }
+
+  frameCallbackRef.current = (time: number) => {
+    const elapsedMs = lastFrameTimeRef.current === null ? 0 : time - lastFrameTimeRef.current
+    lastFrameTimeRef.current = time
+    debugRef.current.frame(elapsedMs)
+    updateBall(elapsedMs)
+    draw()
+  }
+
+  // Start a single game loop for the lifetime of the component
+  useEffect(() => {
+    const gameLoop = (time: number) => {
+      frameCallbackRef.current?.(time)
+      animationFrameRef.current = requestAnimationFrame(gameLoop)
+    }
+
+    animationFrameRef.current = requestAnimationFrame(gameLoop)
+    setAppLoadingState(prev => ({ ...prev, gameLoopStarted: true }))
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current)
+      }
+    }
+  }, [])
+
+  // Initialize Farcaster SDK only when app is fully loaded
+  useEffect(() => {
+    const isAppReady = appLoadingState.canvasInitialized && 
+                      appLoadingState.hapticsChecked && 
+                      appLoadingState.gameLoopStarted &&
+                      !appLoadingState.farcasterReady
+
+    if (isAppReady) {
+      const initializeFarcasterSDK = async () => {
+        let readyStartedAt = performance.now()
+        try {
+          // Small delay to ensure UI is fully rendered
+          await new Promise(resolve => setTimeout(resolve, 100))
+          
+          // Call ready to hide the splash screen when the interface is loaded,
+          // with a timeout to prevent hanging on CSP issues
+          readyStartedAt = performance.now()
+          await withTimeout(sdk.actions.ready(), 5000, 'SDK ready timeout')
+          debugRef.current.readySettled(performance.now() - readyStartedAt)
+          
+          console.log('Farcaster SDK initialized successfully - app is ready!')
+          setAppLoadingState(prev => ({ ...prev, farcasterReady: true }))
+        } catch (error) {
+          // CSP restrictions might prevent SDK calls - app should still work
+          debugRef.current.readySettled(performance.now() - readyStartedAt, error)
+          console.log('Farcaster SDK not available or failed to initialize (possibly CSP-related):', error)
+          console.log('App will continue to work outside of Farcaster environment')
+          setAppLoadingState(prev => ({ ...prev, farcasterReady: true }))
+        }
+      }
+      
+      initializeFarcasterSDK()
+    }
+  }, [appLoadingState])
+
+  // Show loading state if app is not yet ready
+  const isAppLoading = !appLoadingState.canvasInitialized || 
+                      !appLoadingState.hapticsChecked || 
+                      !appLoadingState.gameLoopStarted
+
+  return (
+    <div
+      className="game-container"
+      style={{
+        '--safe-top': `${safeArea.top}px`,
+        '--safe-right': `${safeArea.right}px`,
+        '--safe-bottom': `${safeArea.bottom}px`,
+        '--safe-left': `${safeArea.left}px`
+      } as React.CSSProperties}
+    >
+      {isAppLoading && (
+        <div className="loading-overlay">
+          <div className="loading-content">
+            <div className="loading-spinner"></div>
+            <p>Loading FidgetBall...</p>
+          </div>
+        </div>
+      )}
+      
+      <canvas
+        ref={canvasRef}
+        width={canvasSize.width}
+        height={canvasSize.height}
+        className="game-canvas"
+        style={{ opacity: isAppLoading ? 0.3 : 1 }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      />
+      
+      {lastChallengeResult && (
+        <div className="results-overlay">
+          <div className="results-content">
+            <h2>Time&apos;s up!</h2>
+            <p className="results-score">{lastChallengeResult.score}</p>
+            <p>Targets: {lastChallengeResult.hits}</p>
+            <p>Best combo: {lastChallengeResult.bestCombo}</p>
+            <p>Wall hits: {lastChallengeResult.wallHits}</p>
+            {submittedRank !== null && <p>All-time rank: #{submittedRank}</p>}
+            <button className="permission-button" onClick={() => setLeaderboardOpen(true)}>
+              Leaderboard
+            </button>
+            <button className="permission-button" onClick={() => shareCurrentRun(lastChallengeResult)}>
+              {shareLabel('Share Score')}
+            </button>
+            <button className="permission-button" onClick={startChallenge}>
+              Play Again
+            </button>
+            <button className="permission-button" onClick={startFreePlay}>
+              Free Play
+            </button>
+          </div>
+        </div>
+      )}
+      
+      {leaderboardOpen && (
+        <Leaderboard player={player} refreshKey={leaderboardRefresh} onClose={() => setLeaderboardOpen(false)} />
+      )}
+
+      {statsOpen && (
+        <StatsPanel tracker={statsRef.current} syncStatus={statsSyncLabel()} onClose={() => setStatsOpen(false)} />
+      )}
+      
+      {multiplayer && (
+        <div className="multiplayer-bar">
+          <span>
+            Room {multiplayer.room}
+            {' · '}
+            {multiplayer.error ?? (multiplayer.connected ? `${multiplayer.players.length} playing` : 'Connecting...')}
+          </span>
+          <button onClick={leaveRoom}>✕</button>
+        </div>
+      )}
+
+      {editingSurfaces && canTouchBalls() && (
+        <SurfaceEditor
+          tool={surfaceTool}
+          selected={selectedSurface === null ? null : surfaces[selectedSurface] ?? null}
+          full={surfaces.length >= MAX_SURFACES}
+          onToolChange={setSurfaceTool}
+          onRotate={() => updateSelectedSurface(surface => (
+            surface.type === 'conveyor' ? { ...surface, angle: (surface.angle + Math.PI / 2) % (Math.PI * 2) } : surface
+          ))}
+          onFlip={() => updateSelectedSurface(surface => (
+            surface.type === 'magnet' ? { ...surface, repel: !surface.repel } : surface
+          ))}
+          onDelete={deleteSelectedSurface}
+          onClear={clearSurfaces}
+          onDone={closeSurfaceEditor}
+        />
+      )}
+
+      {replayFrameCount !== null && (
+        <div className="replay-bar">
+          <button onClick={toggleReplayPaused}>{replayPaused ? '▶' : '❚❚'}</button>
+          <input
+            ref={scrubberRef}
+            type="range"
+            min="0"
+            max={replayFrameCount}
+            step="1"
+            defaultValue="0"
+            onChange={(e) => seekReplay(Number(e.target.value))}
+          />
+          <button onClick={exitReplay}>✕</button>
+        </div>
+      )}
+      
+      <div className="controls" style={{ opacity: isAppLoading ? 0.3 : 1 }}>
+        {inputSource === 'demo' ? (
+          <>
+            <p>Tilt your device to control the ball!</p>
+            {permissionDenied && (
+              <p style={{ color: '#ff6b6b', fontSize: '12px', marginBottom: '8px' }}>
+                Permission denied. Please refresh and try again.
+              </p>
+            )}
+            <p style={{ fontSize: '12px', opacity: 0.8, marginBottom: '8px' }}>
+              For iOS: Requires HTTPS and user interaction
+            </p>
+            <button 
+              className="permission-button"
+              onClick={() => requestDeviceMotionPermission('motion')}
+              disabled={isRequestingPermission}
+            >
+              {isRequestingPermission ? 'Requesting...' : 'Enable Motion'}
+            </button>
+            <p style={{ fontSize: '12px', opacity: 0.8, margin: '12px 0 4px 0' }}>
+              No motion sensor? Play with:
+            </p>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {(['keyboard', 'mouse', 'gamepad'] as InputSourceId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => selectInputSource(id)}
+                  style={{ ...MENU_BUTTON_STYLE, padding: '6px 4px', fontSize: '11px', textTransform: 'capitalize' }}
+                >
+                  {id}
+                </button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', marginBottom: '8px' }}>
+              <button 
+                onClick={handleMenuButtonClick}
+                onPointerDown={startMenuLongPress}
+                onPointerUp={cancelMenuLongPress}
+                onPointerLeave={cancelMenuLongPress}
+                onContextMenu={(e) => e.preventDefault()}
+                style={{
+                  background: 'rgba(255,255,255,0.1)',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  padding: '8px',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '2px',
+                  width: '32px',
+                  height: '32px',
+                  alignItems: 'center',
+                  justifyContent: 'center'
+                }}
+              >
+                <div style={{ width: '14px', height: '2px', backgroundColor: '#fff', borderRadius: '1px' }}></div>
+                <div style={{ width: '14px', height: '2px', backgroundColor: '#fff', borderRadius: '1px' }}></div>
+                <div style={{ width: '14px', height: '2px', backgroundColor: '#fff', borderRadius: '1px' }}></div>
+              </button>
+            </div>
+            
+            {menuOpen && (
+              <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: '1px solid rgba(255,255,255,0.2)' }}>
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Input{inputSource === 'motion' ? ': Motion active ✓' : ''}
+                  </label>
+                  <select
+                    value={inputSource}
+                    onChange={(e) => selectInputSource(e.target.value as InputSourceId)}
+                    style={{ width: '100%', padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    {INPUT_SOURCES.map(({ id, label }) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                
+                {isTiltSource(inputSource) && (
+                  <div style={{ marginBottom: '12px' }}>
+                    <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                      Smoothing: {tiltSettings.smoothingMs}ms
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max={MAX_SMOOTHING_MS}
+                      step="10"
+                      value={tiltSettings.smoothingMs}
+                      onChange={(e) => {
+                        const smoothingMs = Number(e.target.value)
+                        setTiltSettings(prev => ({ ...prev, smoothingMs }))
+                      }}
+                      style={{ width: '100%', height: '4px' }}
+                    />
+                    <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                      <button
+                        onClick={startCalibration}
+                        disabled={isCalibrating}
+                        style={MENU_BUTTON_STYLE}
+                      >
+                        {isCalibrating ? 'Hold still...' : 'Set as Flat'}
+                      </button>
+                      <button
+                        onClick={() => setTiltSettings(prev => ({ ...prev, offset: DEFAULT_TILT_SETTINGS.offset }))}
+                        disabled={isCalibrating}
+                        style={MENU_BUTTON_STYLE}
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                  {(['free', 'challenge'] as GameMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={mode === 'free' ? startFreePlay : startChallenge}
+                      disabled={mode === 'challenge' && multiplayer !== null}
+                      style={{
+                        ...MENU_BUTTON_STYLE,
+                        background: gameMode === mode ? 'rgba(255,255,255,0.2)' : 'transparent'
+                      }}
+                    >
+                      {mode === 'free' ? 'Free Play' : 'Challenge'}
+                    </button>
+                  ))}
+                </div>
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Presets
+                  </label>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                    {SETTINGS_PRESETS.map(preset => (
+                      <button
+                        key={preset.id}
+                        onClick={() => setSettings(prev => ({ ...prev, ...preset.settings }))}
+                        style={{ ...MENU_BUTTON_STYLE, padding: '6px 4px', fontSize: '11px' }}
+                      >
+                        {preset.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Bounciness: {(settings.bounciness * 100).toFixed(0)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={SETTINGS_SCHEMA.bounciness.min}
+                    max={SETTINGS_SCHEMA.bounciness.max}
+                    step={SETTINGS_SCHEMA.bounciness.step}
+                    value={settings.bounciness}
+                    onChange={(e) => updateSetting('bounciness', Number(e.target.value))}
+                    style={{ width: '100%', height: '4px' }}
+                  />
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Rolling Resistance: {settings.rollingResistance}
+                  </label>
+                  <input
+                    type="range"
+                    min={SETTINGS_SCHEMA.rollingResistance.min}
+                    max={SETTINGS_SCHEMA.rollingResistance.max}
+                    step={SETTINGS_SCHEMA.rollingResistance.step}
+                    value={settings.rollingResistance}
+                    onChange={(e) => updateSetting('rollingResistance', Number(e.target.value))}
+                    style={{ width: '100%', height: '4px' }}
+                  />
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Ball
+                  </label>
+                  <select
+                    value={settings.ballKind}
+                    onChange={(e) => updateSetting('ballKind', e.target.value as BallKind)}
+                    style={{ width: '100%', padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    {BALL_KIND_IDS.map(id => (
+                      <option key={id} value={id}>{BALL_KINDS[id].name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Ball Size: {settings.ballSize}mm ({(ballMassKg * 1000).toFixed(1)}g)
+                  </label>
+                  <input
+                    type="range"
+                    min={SETTINGS_SCHEMA.ballSize.min}
+                    max={SETTINGS_SCHEMA.ballSize.max}
+                    step={SETTINGS_SCHEMA.ballSize.step}
+                    value={settings.ballSize}
+                    onChange={(e) => updateSetting('ballSize', Number(e.target.value))}
+                    style={{ width: '100%', height: '4px' }}
+                  />
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Audio Pitch: {settings.audioPitch}Hz
+                  </label>
+                  <input
+                    type="range"
+                    min={SETTINGS_SCHEMA.audioPitch.min}
+                    max={SETTINGS_SCHEMA.audioPitch.max}
+                    step={SETTINGS_SCHEMA.audioPitch.step}
+                    value={settings.audioPitch}
+                    onChange={(e) => updateSetting('audioPitch', Number(e.target.value))}
+                    style={{ width: '100%', height: '4px' }}
+                  />
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Volume: {settings.muted ? 'muted' : `${Math.round(settings.masterVolume * 100)}%`}
+                  </label>
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input
+                      type="range"
+                      min={SETTINGS_SCHEMA.masterVolume.min}
+                      max={SETTINGS_SCHEMA.masterVolume.max}
+                      step={SETTINGS_SCHEMA.masterVolume.step}
+                      value={settings.masterVolume}
+                      onChange={(e) => updateSetting('masterVolume', Number(e.target.value))}
+                      style={{ flex: 1, height: '4px' }}
+                    />
+                    <button
+                      onClick={() => updateSetting('muted', !settings.muted)}
+                      style={{
+                        ...MENU_BUTTON_STYLE,
+                        flex: 'none',
+                        padding: '4px 8px',
+                        background: settings.muted ? 'rgba(255,255,255,0.2)' : 'transparent'
+                      }}
+                    >
+                      {settings.muted ? '🔇' : '🔊'}
+                    </button>
+                  </div>
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Ball Color
+                  </label>
+                  <input
+                    type="color"
+                    value={settings.ballColor}
+                    onChange={(e) => updateSetting('ballColor', e.target.value)}
+                    style={{ 
+                      width: '100%', 
+                      height: '32px', 
+                      border: 'none', 
+                      borderRadius: '4px',
+                      cursor: 'pointer'
+                    }}
+                  />
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Theme
+                  </label>
+                  <select
+                    value={settings.theme}
+                    onChange={(e) => updateSetting('theme', e.target.value as ThemeSetting)}
+                    style={{ width: '100%', padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    <option value="auto">Auto ({prefersDark ? 'dark' : 'light'})</option>
+                    {THEMES.map(({ id, name }) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Arena{level?.arena ? ' (set by level)' : ''}
+                  </label>
+                  <select
+                    value={settings.arena}
+                    disabled={Boolean(level?.arena)}
+                    onChange={(e) => updateSetting('arena', e.target.value as ArenaShapeId)}
+                    style={{ width: '100%', padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    {ARENA_SHAPE_IDS.map(id => (
+                      <option key={id} value={id}>{ARENA_SHAPES[id].name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Effects
+                  </label>
+                  <div style={{ display: 'flex', gap: '8px', marginBottom: '6px' }}>
+                    {EFFECT_TOGGLES.map(({ key, label }) => (
+                      <button
+                        key={key}
+                        onClick={() => updateSetting(key, !settings[key])}
+                        style={{
+                          ...MENU_BUTTON_STYLE,
+                          background: settings[key] ? 'rgba(255,255,255,0.2)' : 'transparent'
+                        }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <span style={{ fontSize: '11px', marginRight: '4px' }}>Reduce</span>
+                    {REDUCED_EFFECTS_OPTIONS.map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => updateSetting('reducedEffects', option.id)}
+                        style={{
+                          ...MENU_BUTTON_STYLE,
+                          padding: '6px 4px',
+                          fontSize: '11px',
+                          background: settings.reducedEffects === option.id ? 'rgba(255,255,255,0.2)' : 'transparent'
+                        }}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {settings.reducedEffects === 'system' && prefersReducedMotion && (
+                    <p style={{ fontSize: '11px', opacity: 0.7, marginTop: '4px' }}>
+                      Your system asks for reduced motion, so effects are off
+                    </p>
+                  )}
+                </div>
+                
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                  <button onClick={copySettingsLink} style={MENU_BUTTON_STYLE}>
+                    {linkCopied ? 'Link copied!' : 'Copy Link'}
+                  </button>
+                  <button onClick={() => setSettings(DEFAULT_SETTINGS)} style={MENU_BUTTON_STYLE}>
+                    Reset to Defaults
+                  </button>
+                </div>
+
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                  <button onClick={() => shareCurrentRun(null)} style={MENU_BUTTON_STYLE}>
+                    {shareLabel('Share')}
+                  </button>
+                  <button onClick={() => setLeaderboardOpen(true)} style={MENU_BUTTON_STYLE}>
+                    Leaderboard
+                  </button>
+                  <button onClick={() => setStatsOpen(true)} style={MENU_BUTTON_STYLE}>
+                    Stats
+                  </button>
+                </div>
+
+                {addAppStatus && addAppStatus !== 'enabled' && (
+                  <button
+                    onClick={addAppForReminders}
+                    style={{ ...MENU_BUTTON_STYLE, width: '100%', marginBottom: '12px' }}
+                  >
+                    {addAppLabel()}
+                  </button>
+                )}
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Level
+                  </label>
+                  <select
+                    value={level?.id ?? ''}
+                    onChange={(e) => selectLevel(e.target.value)}
+                    disabled={gameMode === 'challenge'}
+                    style={{ width: '100%', padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    <option value="">Open arena</option>
+                    {BUNDLED_LEVELS.map(({ id, name }) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                  {levelError && (
+                    <p style={{ color: '#ff6b6b', fontSize: '11px', marginTop: '4px' }}>{levelError}</p>
+                  )}
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Surfaces: {surfaces.length}/{MAX_SURFACES}
+                  </label>
+                  <button
+                    onClick={openSurfaceEditor}
+                    disabled={gameMode === 'challenge' || replayFrameCount !== null || multiplayer !== null}
+                    style={{ ...MENU_BUTTON_STYLE, width: '100%' }}
+                  >
+                    Edit Surfaces
+                  </button>
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Balls: {ballCount}/{MAX_BALLS}
+                  </label>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      onClick={spawnBall}
+                      disabled={ballCount >= MAX_BALLS}
+                      style={MENU_BUTTON_STYLE}
+                    >
+                      Add Ball
+                    </button>
+                    <button
+                      onClick={clearBalls}
+                      disabled={ballCount <= 1}
+                      style={MENU_BUTTON_STYLE}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+                
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Multiplayer
+                  </label>
+                  {multiplayer ? (
+                    <button onClick={leaveRoom} style={{ ...MENU_BUTTON_STYLE, width: '100%' }}>
+                      Leave Room {multiplayer.room}
+                    </button>
+                  ) : (
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      <input
+                        type="text"
+                        value={roomInput}
+                        placeholder="Room code"
+                        maxLength={8}
+                        onChange={(e) => setRoomInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') joinRoom(roomInput)
+                        }}
+                        style={{ flex: 1, minWidth: 0, padding: '4px', fontSize: '12px', borderRadius: '4px' }}
+                      />
+                      <button onClick={() => joinRoom(roomInput)} style={{ ...MENU_BUTTON_STYLE, flex: 'none' }}>
+                        Join
+                      </button>
+                      <button onClick={() => joinRoom(createRoomCode())} style={{ ...MENU_BUTTON_STYLE, flex: 'none' }}>
+                        New
+                      </button>
+                    </div>
+                  )}
+                  {roomError && (
+                    <p style={{ color: '#ff6b6b', fontSize: '11px', marginTop: '4px' }}>{roomError}</p>
+                  )}
+                </div>
+
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                    Replays
+                  </label>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      onClick={isRecording ? stopRecording : startRecording}
+                      disabled={gameMode === 'challenge' || replayFrameCount !== null || multiplayer !== null}
+                      style={MENU_BUTTON_STYLE}
+                    >
+                      {isRecording ? '■ Stop' : '● Record'}
+                    </button>
+                    <label style={{ ...MENU_BUTTON_STYLE, textAlign: 'center' }}>
+                      Import
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          if (file) importTrace(file)
+                          e.target.value = ''
+                        }}
+                        style={{ display: 'none' }}
+                      />
+                    </label>
+                  </div>
+                  {savedTraces.map(trace => (
+                    <div
+                      key={trace.recordedAt}
+                      style={{ display: 'flex', alignItems: 'center', gap: '4px', marginTop: '6px', fontSize: '11px' }}
+                    >
+                      <span style={{ flex: 1 }}>
+                        {new Date(trace.recordedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {' · '}
+                        {Math.round(traceDurationMs(trace) / 1000)}s
+                      </span>
+                      <button onClick={() => startReplay(trace)} style={{ ...MENU_BUTTON_STYLE, flex: 'none', padding: '4px 8px' }}>
+                        ▶
+                      </button>
+                      <button onClick={() => exportTraceFile(trace)} style={{ ...MENU_BUTTON_STYLE, flex: 'none', padding: '4px 8px' }}>
+                        ⬇
+                      </button>
+                    </div>
+                  ))}
+                  {replayError && (
+                    <p style={{ color: '#ff6b6b', fontSize: '11px', marginTop: '4px' }}>{replayError}</p>
+                  )}
+                </div>
+                
+                {hapticsSupported && (
+                  <div style={{ marginBottom: '12px' }}>
+                    <label style={{ fontSize: '11px', display: 'block', marginBottom: '4px' }}>
+                      Feedback
+                    </label>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      {FEEDBACK_OPTIONS.map(option => (
+                        <button
+                          key={option.id}
+                          onClick={() => updateSetting('feedback', option.id)}
+                          style={{
+                            ...MENU_BUTTON_STYLE,
+                            background: settings.feedback === option.id ? 'rgba(255,255,255,0.2)' : 'transparent'
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                <button 
+                  className="permission-button"
+                  onClick={() => {
+                    setPermissionGranted(false)
+                    setPermissionDenied(false)
+                    setInputSource('demo')
+                  }}
+                  style={{ fontSize: '12px', padding: '8px 16px', width: '100%' }}
+                >
+                  Reset Permissions
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+} 
\ No newline at end of file
@@ -0,0 +1,100 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  fetchLeaderboard,
+  LeaderboardPeriod,
+  LeaderboardResponse,
+  Player,
+  playerKey,
+  RankedEntry
+} from '@/lib/leaderboard'
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: 'Today',
+  all: 'All time'
+}
+
+interface LeaderboardProps {
+  player: Player | null
+  // Bump to reload after a new score was submitted
+  refreshKey: number
+  onClose: () => void
+}
+
+export default function Leaderboard({ player, refreshKey, onClose }: LeaderboardProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('daily')
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    fetchLeaderboard('challenge', period, player)
+      .then(response => {
+        if (!cancelled) setBoard(response)
+      })
+      .catch(loadError => {
+        console.log('Leaderboard failed to load:', loadError)
+        if (!cancelled) setError('Could not load the leaderboard')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [period, player, refreshKey])
+
+  const ownKey = player ? playerKey(player) : null
+  const ownEntryHidden = board?.player && !board.entries.some(entry => entry.playerKey === board.player?.playerKey)
+
+  const renderRow = (entry: RankedEntry) => (
+    <li
+      key={entry.playerKey}
+      className={entry.playerKey === ownKey ? 'leaderboard-row leaderboard-row-own' : 'leaderboard-row'}
+    >
+      <span>#{entry.rank}</span>
+      <span className="leaderboard-name">{entry.name}</span>
+      <span>{entry.score}</span>
+    </li>
+  )
+
+  return (
+    <div className="results-overlay" onClick={onClose}>
+      <div className="leaderboard" onClick={(e) => e.stopPropagation()}>
+        <h2>Leaderboard</h2>
+        <div style={{ display: 'flex', gap: '8px', margin: '8px 0' }}>
+          {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setPeriod(id)}
+              className="permission-button"
+              style={{ flex: 1, padding: '6px', fontSize: '12px', opacity: period === id ? 1 : 0.5 }}
+            >
+              {PERIOD_LABELS[id]}
+            </button>
+          ))}
+        </div>
+
+        {error && <p style={{ color: '#ff6b6b', fontSize: '12px' }}>{error}</p>}
+        {!error && !board && <p style={{ fontSize: '12px' }}>Loading...</p>}
+        {board && board.entries.length === 0 && (
+          <p style={{ fontSize: '12px' }}>No scores yet. Finish a challenge to get on the board!</p>
+        )}
+        {board && board.entries.length > 0 && (
+          <ol className="leaderboard-list">
+            {board.entries.map(renderRow)}
+            {ownEntryHidden && board.player && (
+              <>
+                <li className="leaderboard-gap">…</li>
+                {renderRow(board.player)}
+              </>
+            )}
+          </ol>
+        )}
+
+        <button className="permission-button" onClick={onClose} style={{ marginTop: '8px' }}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
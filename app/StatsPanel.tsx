@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ACHIEVEMENTS, formatDistance, formatDuration, StatTotals, StatsTracker } from '@/lib/stats'
+
+// The tracker counts every frame; the panel only needs to catch up now and then
+const REFRESH_MS = 1000
+
+const ROWS: Array<{ label: string; format: (totals: StatTotals) => string }> = [
+  { label: 'Bounces', format: totals => String(totals.bounces) },
+  { label: 'Distance rolled', format: totals => formatDistance(totals.distance) },
+  { label: 'Top speed', format: totals => `${totals.topSpeed.toFixed(2)} m/s` },
+  { label: 'Longest without a wall', format: totals => formatDuration(totals.longestCalmMs) },
+  { label: 'Time played', format: totals => formatDuration(totals.playedMs) }
+]
+
+interface StatsPanelProps {
+  tracker: StatsTracker
+  // Where lifetime stats are kept, e.g. "Synced to your Farcaster account"
+  syncStatus: string
+  onClose: () => void
+}
+
+export default function StatsPanel({ tracker, syncStatus, onClose }: StatsPanelProps) {
+  const [, setRefresh] = useState(0)
+
+  useEffect(() => {
+    const timer = setInterval(() => setRefresh(count => count + 1), REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const { session, lifetime } = tracker
+  const { unlocked } = tracker.stats
+
+  return (
+    <div className="results-overlay" onClick={onClose}>
+      <div className="leaderboard" onClick={(e) => e.stopPropagation()}>
+        <h2>Stats</h2>
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th />
+              <th>Session</th>
+              <th>Lifetime</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(({ label, format }) => (
+              <tr key={label}>
+                <td>{label}</td>
+                <td>{format(session)}</td>
+                <td>{format(lifetime)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p style={{ fontSize: '11px', opacity: 0.7, marginBottom: '12px' }}>{syncStatus}</p>
+
+        <h2 style={{ fontSize: '16px' }}>
+          Achievements {Object.keys(unlocked).length}/{ACHIEVEMENTS.length}
+        </h2>
+        <ul className="leaderboard-list">
+          {ACHIEVEMENTS.map(({ id, name, description }) => {
+            const unlockedAt = unlocked[id]
+            return (
+              <li key={id} className={unlockedAt === undefined ? 'leaderboard-row' : 'leaderboard-row leaderboard-row-own'}>
+                <span>{unlockedAt === undefined ? '🔒' : '🏆'}</span>
+                <span className="leaderboard-name" title={description}>
+                  {name}
+                  <br />
+                  <small style={{ opacity: 0.7 }}>
+                    {unlockedAt === undefined ? description : `${description} · ${new Date(unlockedAt).toLocaleDateString()}`}
+                  </small>
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+
+        <button className="permission-button" onClick={onClose} style={{ marginTop: '8px' }}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { SURFACE_KINDS, SurfaceDefinition, SurfaceTool } from '@/lib/surfaces'
+
+const TOOL_HINTS: Record<SurfaceTool, string> = {
+  select: 'Tap a surface to select it, drag to move it',
+  ice: 'Drag to paint ice',
+  sand: 'Drag to paint sand',
+  conveyor: 'Drag the way the belt should run',
+  bumper: 'Tap to place a bumper',
+  magnet: 'Tap to place a magnet'
+}
+
+interface SurfaceEditorProps {
+  tool: SurfaceTool
+  selected: SurfaceDefinition | null
+  full: boolean // No room for another surface
+  onToolChange: (tool: SurfaceTool) => void
+  onRotate: () => void
+  onFlip: () => void
+  onDelete: () => void
+  onClear: () => void
+  onDone: () => void
+}
+
+export default function SurfaceEditor({
+  tool,
+  selected,
+  full,
+  onToolChange,
+  onRotate,
+  onFlip,
+  onDelete,
+  onClear,
+  onDone
+}: SurfaceEditorProps) {
+  const tools: Array<{ id: SurfaceTool; name: string }> = [
+    { id: 'select', name: 'Move' },
+    ...SURFACE_KINDS.map(({ kind, name }) => ({ id: kind, name }))
+  ]
+
+  return (
+    <div className="editor-bar">
+      <div className="editor-tools">
+        {tools.map(({ id, name }) => (
+          <button
+            key={id}
+            onClick={() => onToolChange(id)}
+            disabled={full && id !== 'select'}
+            style={{ opacity: tool === id ? 1 : 0.5 }}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <p style={{ fontSize: '11px', opacity: 0.8 }}>
+        {full && tool !== 'select' ? 'The arena is full; delete a surface to paint more' : TOOL_HINTS[tool]}
+      </p>
+      <div className="editor-tools">
+        {selected?.type === 'conveyor' && <button onClick={onRotate}>Rotate</button>}
+        {selected?.type === 'magnet' && <button onClick={onFlip}>{selected.repel ? 'Attract' : 'Repel'}</button>}
+        {selected && <button onClick={onDelete}>Delete</button>}
+        <button onClick={onClear}>Clear All</button>
+        <button onClick={onDone}>Done</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { timingSafeEqual } from 'crypto'
+import { getMiniAppConfig } from '@/lib/miniapp'
+import { sendDailyReminders } from '@/lib/notifications'
+import { getNotificationStore } from '@/lib/notificationStore'
+import { createRateLimiter } from '@/lib/rateLimit'
+
+// A cron retrying on errors is fine; one looping every second is not
+const runLimiter = createRateLimiter(1, 60_000)
+
+let running: Promise<unknown> | null = null
+
+function authorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const given = Buffer.from(request.headers.get('authorization') ?? '')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// POST /api/notifications/daily with `Authorization: Bearer $CRON_SECRET`;
+// meant to be called by a scheduler shortly after 00:00 UTC
+export async function POST(request: Request) {
+  if (!process.env.CRON_SECRET) {
+    return Response.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+  if (!authorized(request)) {
+    return Response.json({ error: 'unauthorized' }, { status: 401 })
+  }
+  if (running || !runLimiter.allow('daily')) {
+    return Response.json({ error: 'reminders were sent moments ago, try again later' }, { status: 429 })
+  }
+
+  const run = sendDailyReminders(getNotificationStore(), getMiniAppConfig())
+  running = run
+  try {
+    return Response.json(await run)
+  } finally {
+    running = null
+  }
+}
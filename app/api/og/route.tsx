@@ -0,0 +1,182 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { ImageResponse } from 'next/og'
+import { ArenaLayout, EMPTY_LAYOUT } from '@/lib/physics'
+import { BUNDLED_LEVELS, parseLevel, resolveLevel } from '@/lib/levels'
+import { DEFAULT_SETTINGS, parsePartialSettings } from '@/lib/settings'
+
+// Preview image for casts and link unfurls: the arena as draw() paints it, with
+// the player's ball colour, an optional level and an optional score.
+// Query: ?color=rrggbb&level=<bundled level id>&score=<integer>
+// Text only uses Latin glyphs from the Noto Sans that ships with next/og, so
+// rendering never has to fetch a font.
+
+const WIDTH = 1200
+const HEIGHT = 800 // 3:2, as Farcaster embeds expect
+// Levels are drawn to scale, so their ball is smaller to fit between the obstacles
+const BALL_RADIUS = 60
+const LEVEL_BALL_RADIUS = 30
+const MAX_SCORE = 999_999
+
+// Level files are only read for known ids, so the query can't point at arbitrary paths
+async function loadLayout(levelId: string | null): Promise<ArenaLayout> {
+  if (!levelId || !BUNDLED_LEVELS.some(level => level.id === levelId)) return EMPTY_LAYOUT
+  try {
+    const file = await readFile(path.join(process.cwd(), 'public', 'levels', `${levelId}.json`), 'utf8')
+    return resolveLevel(parseLevel(JSON.parse(file)), { width: WIDTH, height: HEIGHT })
+  } catch (error) {
+    console.log('OG image level failed to load:', error)
+    return EMPTY_LAYOUT
+  }
+}
+
+function parseScore(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null
+  return Math.min(MAX_SCORE, Number(value))
+}
+
+const circleStyle = (x: number, y: number, radius: number): React.CSSProperties => ({
+  position: 'absolute',
+  left: x - radius,
+  top: y - radius,
+  width: radius * 2,
+  height: radius * 2,
+  borderRadius: radius
+})
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const color = parsePartialSettings({ ballColor: searchParams.get('color') }).ballColor ?? DEFAULT_SETTINGS.ballColor
+  const score = parseScore(searchParams.get('score'))
+  const layout = await loadLayout(searchParams.get('level'))
+
+  // Rest the ball on the level's spawn point, or just below the title in the open arena
+  const ball = layout.spawn ?? { x: WIDTH / 2, y: HEIGHT * 0.68 }
+  const radius = layout.spawn ? LEVEL_BALL_RADIUS : BALL_RADIUS
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', position: 'relative', width: WIDTH, height: HEIGHT, background: '#2a2a2a' }}>
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: 0,
+            width: WIDTH,
+            height: HEIGHT,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: '#4a4a4a',
+            fontSize: Math.min(WIDTH, HEIGHT) / 12
+          }}
+        >
+          FidgetBall
+        </div>
+
+        {layout.goals.map((goal, i) => (
+          <div
+            key={`goal-${i}`}
+            style={{
+              position: 'absolute',
+              left: goal.x,
+              top: goal.y,
+              width: goal.width,
+              height: goal.height,
+              background: 'rgba(85, 239, 196, 0.25)',
+              border: '2px solid rgba(85, 239, 196, 0.8)'
+            }}
+          />
+        ))}
+
+        {layout.holes.map((hole, i) => (
+          <div key={`hole-${i}`} style={{ ...circleStyle(hole.x, hole.y, hole.radius), background: '#0d0d0d' }} />
+        ))}
+
+        {layout.obstacles.map((obstacle, i) => {
+          if (obstacle.type === 'rect') {
+            return (
+              <div
+                key={`obstacle-${i}`}
+                style={{
+                  position: 'absolute',
+                  left: obstacle.x,
+                  top: obstacle.y,
+                  width: obstacle.width,
+                  height: obstacle.height,
+                  background: '#6a6a6a'
+                }}
+              />
+            )
+          }
+          if (obstacle.type === 'circle') {
+            return (
+              <div key={`obstacle-${i}`} style={{ ...circleStyle(obstacle.x, obstacle.y, obstacle.radius), background: '#6a6a6a' }} />
+            )
+          }
+          // Segments become thin bars rotated about their midpoint
+          const length = Math.hypot(obstacle.x2 - obstacle.x1, obstacle.y2 - obstacle.y1)
+          const angle = Math.atan2(obstacle.y2 - obstacle.y1, obstacle.x2 - obstacle.x1)
+          return (
+            <div
+              key={`obstacle-${i}`}
+              style={{
+                position: 'absolute',
+                left: (obstacle.x1 + obstacle.x2) / 2 - length / 2,
+                top: (obstacle.y1 + obstacle.y2) / 2 - 1.5,
+                width: length,
+                height: 3,
+                borderRadius: 1.5,
+                background: '#6a6a6a',
+                transform: `rotate(${angle}rad)`
+              }}
+            />
+          )
+        })}
+
+        {/* Same shadow, gradient and highlight as the canvas ball */}
+        <div style={{ ...circleStyle(ball.x + radius * 0.12, ball.y + radius * 0.12, radius), background: 'rgba(0, 0, 0, 0.2)' }} />
+        <div
+          style={{
+            ...circleStyle(ball.x, ball.y, radius),
+            backgroundImage: `radial-gradient(circle at 35% 35%, #ffffff 0%, ${color} 30%, ${color} 100%)`
+          }}
+        />
+        <div
+          style={{
+            ...circleStyle(ball.x - radius * 0.4, ball.y - radius * 0.4, radius * 0.3),
+            background: 'rgba(255, 255, 255, 0.6)'
+          }}
+        />
+
+        {score !== null && (
+          <div
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: 60,
+              width: WIDTH,
+              display: 'flex',
+              justifyContent: 'center',
+              color: '#ffffff',
+              fontSize: 72
+            }}
+          >
+            {/* Backdrop keeps the text readable over level geometry */}
+            <div style={{ display: 'flex', padding: '4px 32px', borderRadius: 16, background: 'rgba(0, 0, 0, 0.6)' }}>
+              {`I scored ${score} in FidgetBall`}
+            </div>
+          </div>
+        )}
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: {
+        // The image only depends on the query string
+        'Cache-Control': 'public, max-age=86400'
+      }
+    }
+  )
+}
@@ -0,0 +1,68 @@
+import {
+  LEADERBOARD_SIZE,
+  LeaderboardPeriod,
+  LeaderboardResponse,
+  parseScoreSubmission,
+  periodStart,
+  playerKey,
+  playerName,
+  rankEntries,
+  ScoreValidationError
+} from '@/lib/leaderboard'
+import { createRateLimiter } from '@/lib/rateLimit'
+import { getScoreStore } from '@/lib/scoreStore'
+
+// A round lasts a minute, so more than this is someone scripting submissions
+const submissionLimiter = createRateLimiter(5, 5 * 60_000)
+
+const PERIODS: LeaderboardPeriod[] = ['daily', 'all']
+
+// GET /api/scores?mode=challenge&period=daily|all&player=<player key>
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const mode = searchParams.get('mode') ?? 'challenge'
+  const period = (searchParams.get('period') ?? 'all') as LeaderboardPeriod
+  if (mode !== 'challenge' || !PERIODS.includes(period)) {
+    return Response.json({ error: 'mode must be "challenge" and period "daily" or "all"' }, { status: 400 })
+  }
+
+  const ranked = rankEntries(await getScoreStore().list({ mode, since: periodStart(period) }))
+  const key = searchParams.get('player')
+  const body: LeaderboardResponse = {
+    entries: ranked.slice(0, LEADERBOARD_SIZE),
+    player: (key && ranked.find(entry => entry.playerKey === key)) || null
+  }
+  return Response.json(body, { headers: { 'Cache-Control': 'no-store' } })
+}
+
+// POST /api/scores with a ScoreSubmission; responds with the player's all-time rank
+export async function POST(request: Request) {
+  let submission
+  try {
+    submission = parseScoreSubmission(await request.json())
+  } catch (error) {
+    const message = error instanceof ScoreValidationError ? error.message : 'body must be JSON'
+    return Response.json({ error: message }, { status: 400 })
+  }
+
+  // fids come from the client's sdk.context and aren't verified, so the limit is per claimed player
+  const key = playerKey(submission.player)
+  if (!submissionLimiter.allow(key)) {
+    return Response.json({ error: 'too many submissions, try again later' }, { status: 429 })
+  }
+
+  const store = getScoreStore()
+  const { result } = submission
+  await store.add({
+    playerKey: key,
+    name: playerName(submission.player),
+    mode: result.mode,
+    score: result.score,
+    hits: result.hits,
+    bestCombo: result.bestCombo,
+    submittedAt: Date.now()
+  })
+
+  const ranked = rankEntries(await store.list({ mode: result.mode, since: 0 }))
+  return Response.json({ player: ranked.find(entry => entry.playerKey === key) ?? null }, { status: 201 })
+}
@@ -0,0 +1,15 @@
+import { readSnapshot } from '@/lib/snapshots'
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const snapshot = await readSnapshot(params.id)
+  if (!snapshot) {
+    return Response.json({ error: 'snapshot not found' }, { status: 404 })
+  }
+  return new Response(new Uint8Array(snapshot), {
+    headers: {
+      'Content-Type': 'image/png',
+      // Snapshots never change once written
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    }
+  })
+}
@@ -0,0 +1,44 @@
+import {
+  MAX_SNAPSHOT_BYTES,
+  readSnapshotUpload,
+  saveSnapshot,
+  SnapshotError,
+  SnapshotTooLargeError
+} from '@/lib/snapshots'
+import { getMiniAppConfig } from '@/lib/miniapp'
+import { clientAddress, createRateLimiter } from '@/lib/rateLimit'
+
+// Each share uploads one snapshot, so more than this is someone filling the disk
+const uploadLimiter = createRateLimiter(10, 10 * 60_000)
+// Uploads from addresses the server can't tell apart share a larger budget, which
+// still bounds how fast the disk fills; set TRUSTED_PROXY_HOPS behind a proxy
+const unknownAddressLimiter = createRateLimiter(100, 10 * 60_000)
+
+// Upload a PNG of the canvas; responds with the public URL to embed in a cast
+export async function POST(request: Request) {
+  const address = clientAddress(request)
+  const allowed = address ? uploadLimiter.allow(`ip:${address}`) : unknownAddressLimiter.allow('unknown')
+  if (!allowed) {
+    return Response.json({ error: 'too many snapshots, try again later' }, { status: 429 })
+  }
+
+  // A declared size over the cap is turned away before reading anything
+  const length = Number(request.headers.get('content-length'))
+  if (length > MAX_SNAPSHOT_BYTES) {
+    return Response.json({ error: 'snapshot is too large' }, { status: 413 })
+  }
+
+  try {
+    const id = await saveSnapshot(await readSnapshotUpload(request.body))
+    return Response.json({ url: `${getMiniAppConfig().url}/api/snapshots/${id}` }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SnapshotTooLargeError) {
+      return Response.json({ error: error.message }, { status: 413 })
+    }
+    if (error instanceof SnapshotError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+    console.log('Snapshot could not be saved:', error)
+    return Response.json({ error: 'snapshot could not be saved' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { parseStats, StatsValidationError, SyncedStats } from '@/lib/stats'
+import { createRateLimiter } from '@/lib/rateLimit'
+import { getStatsStore } from '@/lib/statsStore'
+
+// Clients sync every minute or so while playing; this leaves room for a few devices at once
+const syncLimiter = createRateLimiter(10, 5 * 60_000)
+
+const parseFid = (value: unknown): number | null => {
+  const fid = typeof value === 'string' ? Number(value) : value
+  return typeof fid === 'number' && Number.isInteger(fid) && fid > 0 ? fid : null
+}
+
+// GET /api/stats?fid=<fid>; responds with { stats } or { stats: null } before the first sync
+export async function GET(request: Request) {
+  const fid = parseFid(new URL(request.url).searchParams.get('fid'))
+  if (fid === null) {
+    return Response.json({ error: 'fid must be a positive integer' }, { status: 400 })
+  }
+  return Response.json({ stats: await getStatsStore().get(fid) }, { headers: { 'Cache-Control': 'no-store' } })
+}
+
+// PUT /api/stats with { fid, stats }; merges them with the stored copy and responds with the result
+export async function PUT(request: Request) {
+  let fid: number | null
+  let stats: SyncedStats
+  try {
+    const body = await request.json()
+    fid = parseFid(body?.fid)
+    stats = parseStats(body?.stats)
+  } catch (error) {
+    const message = error instanceof StatsValidationError ? error.message : 'body must be JSON'
+    return Response.json({ error: message }, { status: 400 })
+  }
+  if (fid === null) {
+    return Response.json({ error: 'fid must be a positive integer' }, { status: 400 })
+  }
+
+  // Like scores, fids come from the client's sdk.context and aren't verified. Anyone can
+  // add device entries under any fid, or raise an existing device's totals, and lifetime
+  // stats sum them all; nothing here can tell a forged upload from real play.
+  if (!syncLimiter.allow(`fid:${fid}`)) {
+    return Response.json({ error: 'too many syncs, try again later' }, { status: 429 })
+  }
+
+  try {
+    return Response.json({ stats: await getStatsStore().merge(fid, stats) })
+  } catch (error) {
+    if (error instanceof StatsValidationError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+}
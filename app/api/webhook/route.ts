@@ -0,0 +1,43 @@
+import { getNotificationStore } from '@/lib/notificationStore'
+import { getAppKeyVerifier, verifyWebhookEvent, WebhookSignatureError, WebhookValidationError } from '@/lib/webhook'
+
+// POST /api/webhook: frame_added, frame_removed, notifications_enabled and
+// notifications_disabled events from Farcaster clients, as a signed envelope
+export async function POST(request: Request) {
+  // Without a hub any self-made key passes for any fid, which is only acceptable against a local stub
+  if (process.env.NODE_ENV === 'production' && !process.env.FARCASTER_HUB_URL) {
+    return Response.json({ error: 'FARCASTER_HUB_URL is not configured' }, { status: 503 })
+  }
+
+  let verified
+  try {
+    verified = await verifyWebhookEvent(await request.json(), getAppKeyVerifier())
+  } catch (error) {
+    if (error instanceof WebhookValidationError || error instanceof SyntaxError) {
+      return Response.json({ error: error instanceof SyntaxError ? 'body must be JSON' : error.message }, { status: 400 })
+    }
+    if (error instanceof WebhookSignatureError) {
+      return Response.json({ error: error.message }, { status: 401 })
+    }
+    // The hub couldn't be reached; clients retry failed deliveries
+    console.log('Webhook event could not be verified:', error)
+    return Response.json({ error: 'app key could not be verified' }, { status: 503 })
+  }
+
+  const store = getNotificationStore()
+  const { fid, event } = verified
+  switch (event.event) {
+    case 'frame_added':
+      if (event.notificationDetails) await store.save(fid, event.notificationDetails)
+      break
+    case 'notifications_enabled':
+      await store.save(fid, event.notificationDetails)
+      break
+    case 'frame_removed':
+    case 'notifications_disabled':
+      await store.remove(fid)
+      break
+  }
+
+  return Response.json({ ok: true })
+}
@@ -1,20 +1,31 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
+import { buildFrameEmbed, getMiniAppConfig } from '@/lib/miniapp'
 import './globals.css'
 
+const miniApp = getMiniAppConfig()
+
 export const metadata: Metadata = {
+  metadataBase: new URL(miniApp.url),
   title: 'FidgetBall - Farcaster Mini App',
   description: 'A 2D ball that rolls around based on gyroscope input',
   openGraph: {
     title: 'FidgetBall',
     description: 'A 2D ball that rolls around based on gyroscope input',
     type: 'website',
+    images: [miniApp.imageUrl],
   },
   other: {
-    'fc:frame': 'vNext',
-    'fc:frame:button:1': 'Play FidgetBall',
+    'fc:frame': JSON.stringify(buildFrameEmbed(miniApp)),
   },
 }
 
+// Cover the whole screen on notched phones; the arena insets itself by env(safe-area-inset-*)
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  viewportFit: 'cover',
+}
+
 export default function RootLayout({
   children,
 }: {
@@ -25,4 +36,4 @@ export default function RootLayout({
       <body>{children}</body>
     </html>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,32 @@
+// Adding FidgetBall to the player's Farcaster client, which is also how they
+// opt in to the daily challenge reminders. The client reports the outcome to
+// /api/webhook; this side only tracks what to show on the button.
+
+import { sdk } from '@farcaster/frame-sdk'
+
+// 'available': not added yet; 'added': added with notifications off; 'enabled': nothing left to do
+export type AddAppStatus = 'available' | 'adding' | 'added' | 'enabled' | 'rejected' | 'failed'
+
+interface ClientContext {
+  added?: boolean
+  notificationDetails?: unknown
+}
+
+// Outside a Farcaster client there's no context and nothing to add
+export function initialAddAppStatus(client: ClientContext | null | undefined): AddAppStatus | null {
+  if (!client) return null
+  if (!client.added) return 'available'
+  return client.notificationDetails ? 'enabled' : 'added'
+}
+
+export async function addApp(): Promise<AddAppStatus> {
+  try {
+    // No timeout: the call waits on the player's answer in the client's prompt
+    const result = await sdk.actions.addFrame()
+    return result?.notificationDetails ? 'enabled' : 'added'
+  } catch (error) {
+    // The client throws AddFrame.RejectedByUser when the player declines
+    console.log('Add app failed:', error)
+    return error instanceof Error && /reject/i.test(error.name + error.message) ? 'rejected' : 'failed'
+  }
+}
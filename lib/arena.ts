@@ -0,0 +1,116 @@
+// Arena shape presets for the settings menu, and the safe-area insets that keep
+// the arena clear of notches, status bars and home indicators. Insets come from
+// the Farcaster host (sdk.context.client.safeAreaInsets) and the browser's
+// env(safe-area-inset-*); whichever reports more room wins on each side.
+// The arena is also given a physical size, so balls roll at real speeds.
+
+import { LevelArena, resolveArena } from './levels'
+import { ArenaBounds, ArenaLayout, ArenaWall, DEFAULT_PIXELS_PER_METRE } from './physics'
+
+export type ArenaShapeId = 'rect' | 'rounded' | 'bowl' | 'hexagon'
+
+export interface SafeAreaInsets {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export const ARENA_SHAPE_IDS: readonly ArenaShapeId[] = ['rect', 'rounded', 'bowl', 'hexagon']
+
+export const ARENA_SHAPES: Record<ArenaShapeId, { name: string; arena: LevelArena }> = {
+  rect: { name: 'Box', arena: { type: 'rect' } },
+  rounded: { name: 'Rounded', arena: { type: 'roundedRect', radius: 0.15 } },
+  bowl: { name: 'Bowl', arena: { type: 'circle' } },
+  hexagon: {
+    name: 'Hexagon',
+    arena: {
+      type: 'polygon',
+      points: [
+        { x: 0.5, y: 0 },
+        { x: 1, y: 0.25 },
+        { x: 1, y: 0.75 },
+        { x: 0.5, y: 1 },
+        { x: 0, y: 0.75 },
+        { x: 0, y: 0.25 }
+      ]
+    }
+  }
+}
+
+export const NO_INSETS: SafeAreaInsets = { top: 0, right: 0, bottom: 0, left: 0 }
+
+const SIDES = ['top', 'right', 'bottom', 'left'] as const
+
+// A level's own outline wins over the chosen shape
+export function withArenaShape(layout: ArenaLayout, shape: ArenaShapeId, bounds: ArenaBounds): ArenaLayout {
+  if (layout.walls) return layout
+  return { ...layout, walls: resolveArena(ARENA_SHAPES[shape].arena, bounds) }
+}
+
+// Hosts are untrusted input; anything that isn't a sane pixel count counts as no inset
+export function parseSafeAreaInsets(value: unknown): SafeAreaInsets {
+  const fields = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {}
+  const insets = { ...NO_INSETS }
+  for (const side of SIDES) {
+    const inset = fields[side]
+    if (typeof inset === 'number' && Number.isFinite(inset) && inset > 0) insets[side] = Math.min(inset, 200)
+  }
+  return insets
+}
+
+export function mergeInsets(a: SafeAreaInsets, b: SafeAreaInsets): SafeAreaInsets {
+  return {
+    top: Math.max(a.top, b.top),
+    right: Math.max(a.right, b.right),
+    bottom: Math.max(a.bottom, b.bottom),
+    left: Math.max(a.left, b.left)
+  }
+}
+
+// env() can only be read through a style, so measure it on a throwaway element.
+// Browsers report zero unless the page opts in with viewport-fit=cover.
+export function readCssSafeAreaInsets(): SafeAreaInsets {
+  const probe = document.createElement('div')
+  probe.style.cssText =
+    'position:fixed;visibility:hidden;pointer-events:none;' +
+    'padding:env(safe-area-inset-top) env(safe-area-inset-right) env(safe-area-inset-bottom) env(safe-area-inset-left)'
+  document.body.appendChild(probe)
+  const style = getComputedStyle(probe)
+  const insets = parseSafeAreaInsets({
+    top: parseFloat(style.paddingTop),
+    right: parseFloat(style.paddingRight),
+    bottom: parseFloat(style.paddingBottom),
+    left: parseFloat(style.paddingLeft)
+  })
+  probe.remove()
+  return insets
+}
+
+// Browsers won't say how big a CSS pixel really is. Desktop screens stay close to the
+// 96 per inch the spec assumes; phones and tablets lay out near 160 per inch, the
+// density-independent pixel that mobile viewports are sized in.
+export function readPixelsPerMetre(): number {
+  const touchScreen = window.matchMedia('(pointer: coarse)').matches
+  return touchScreen ? 160 / 0.0254 : DEFAULT_PIXELS_PER_METRE
+}
+
+// The playable area left once the insets are taken off the screen
+export const insetBounds = (bounds: ArenaBounds, insets: SafeAreaInsets): ArenaBounds => ({
+  width: Math.max(1, bounds.width - insets.left - insets.right),
+  height: Math.max(1, bounds.height - insets.top - insets.bottom)
+})
+
+// Trace the outline of a shaped arena as one closed path
+export function traceArenaPath(ctx: CanvasRenderingContext2D, walls: ArenaWall[]) {
+  ctx.beginPath()
+  for (const wall of walls) {
+    if (wall.type === 'line') {
+      ctx.lineTo(wall.x1, wall.y1)
+      ctx.lineTo(wall.x2, wall.y2)
+    } else {
+      ctx.arc(wall.x, wall.y, wall.radius, wall.start, wall.start + wall.sweep)
+    }
+  }
+  ctx.closePath()
+}
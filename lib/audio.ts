@@ -0,0 +1,183 @@
+// Procedural sound for the arena, built on Web Audio.
+// Impacts are short oscillator blips whose loudness and pitch follow the
+// impact speed, each surface has its own timbre, and a filtered noise loop
+// follows how fast the balls are rolling. Everything runs through one master
+// gain and a compressor so piles of simultaneous hits don't clip.
+
+import { Wall } from './physics'
+
+export type Surface = Wall | 'ball' | 'obstacle' | 'hole' | 'goal'
+
+export interface AudioSettings {
+  basePitch: number // Hz, the pitch of a medium-strength side-wall hit
+  volume: number    // Master gain, 0-1
+  muted: boolean
+}
+
+interface Timbre {
+  type: OscillatorType
+  ratio: number    // Pitch relative to the base
+  sweep: number    // Pitch at the end of the blip, relative to its start
+  durationMs: number
+  gain: number     // Relative loudness so no surface dominates the mix
+}
+
+const TIMBRES: Record<Surface, Timbre> = {
+  left: { type: 'triangle', ratio: 1, sweep: 0.5, durationMs: 100, gain: 1 },
+  right: { type: 'triangle', ratio: 1.12, sweep: 0.5, durationMs: 100, gain: 1 },
+  top: { type: 'sine', ratio: 1.5, sweep: 0.6, durationMs: 80, gain: 1.2 },
+  bottom: { type: 'sine', ratio: 0.75, sweep: 0.4, durationMs: 140, gain: 1.2 },
+  ball: { type: 'sine', ratio: 2, sweep: 0.8, durationMs: 50, gain: 0.8 },
+  obstacle: { type: 'square', ratio: 0.5, sweep: 0.7, durationMs: 90, gain: 0.5 },
+  hole: { type: 'sine', ratio: 1, sweep: 0.25, durationMs: 400, gain: 1 },
+  goal: { type: 'triangle', ratio: 1, sweep: 2, durationMs: 300, gain: 1 }
+}
+
+// Corner rattles can fire dozens of hits a second; past this many the oldest voice is cut
+const MAX_VOICES = 8
+// The same surface won't retrigger faster than this
+const MIN_RETRIGGER_MS = 30
+const MAX_IMPACT_GAIN = 0.2
+const MAX_ROLLING_GAIN = 0.05
+// Smoothing time constant for the rolling level, in seconds
+const ROLLING_RESPONSE_S = 0.08
+const NOISE_SECONDS = 2
+
+interface Voice {
+  gain: GainNode
+  oscillator: OscillatorNode
+  endsAt: number
+}
+
+const clampUnit = (value: number) => Math.max(0, Math.min(1, value))
+
+function createNoiseBuffer(context: AudioContext): AudioBuffer {
+  const buffer = context.createBuffer(1, context.sampleRate * NOISE_SECONDS, context.sampleRate)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.random() * 2 - 1
+  }
+  return buffer
+}
+
+// Nothing is created until init() runs from a user gesture, as browsers require
+export function createAudioEngine(initialSettings: AudioSettings) {
+  let settings = initialSettings
+  let context: AudioContext | null = null
+  let master: GainNode | null = null
+  let rollingGain: GainNode | null = null
+  let rollingFilter: BiquadFilterNode | null = null
+  let voices: Voice[] = []
+  const lastPlayed = new Map<Surface, number>()
+
+  const masterLevel = () => (settings.muted ? 0 : settings.volume)
+
+  const buildGraph = (ctx: AudioContext) => {
+    const compressor = ctx.createDynamicsCompressor()
+    compressor.threshold.value = -12
+    compressor.ratio.value = 8
+    compressor.connect(ctx.destination)
+
+    master = ctx.createGain()
+    master.gain.value = masterLevel()
+    master.connect(compressor)
+
+    // Looping noise through a band-pass reads as a ball rumbling over the table
+    const noise = ctx.createBufferSource()
+    noise.buffer = createNoiseBuffer(ctx)
+    noise.loop = true
+    rollingFilter = ctx.createBiquadFilter()
+    rollingFilter.type = 'bandpass'
+    rollingFilter.Q.value = 1.5
+    rollingFilter.frequency.value = settings.basePitch / 4
+    rollingGain = ctx.createGain()
+    rollingGain.gain.value = 0
+    noise.connect(rollingFilter)
+    rollingFilter.connect(rollingGain)
+    rollingGain.connect(master)
+    noise.start()
+  }
+
+  const releaseVoice = (voice: Voice, at: number) => {
+    voice.gain.gain.cancelScheduledValues(at)
+    voice.gain.gain.setTargetAtTime(0, at, 0.005)
+    voice.oscillator.stop(at + 0.03)
+  }
+
+  return {
+    // Safe to call repeatedly; also resumes a context the browser suspended
+    init() {
+      if (typeof window === 'undefined') return
+      try {
+        if (!context) {
+          context = new (window.AudioContext || (window as any).webkitAudioContext)()
+          buildGraph(context)
+        }
+        if (context.state === 'suspended') {
+          context.resume()
+        }
+      } catch (error) {
+        console.log('Audio context initialization failed:', error)
+      }
+    },
+    // Silence everything while the page is hidden
+    suspend() {
+      if (context && context.state === 'running') {
+        context.suspend()
+      }
+    },
+    configure(nextSettings: AudioSettings) {
+      settings = nextSettings
+      if (!context || !master) return
+      master.gain.setTargetAtTime(masterLevel(), context.currentTime, 0.02)
+    },
+    // intensity is the impact speed relative to the fastest that ball can go, 0-1
+    impact(surface: Surface, intensity: number) {
+      if (!context || !master || settings.muted) return
+      const ctx = context
+      const now = ctx.currentTime
+      const nowMs = now * 1000
+      if (nowMs - (lastPlayed.get(surface) ?? -Infinity) < MIN_RETRIGGER_MS) return
+      lastPlayed.set(surface, nowMs)
+
+      try {
+        voices = voices.filter(voice => voice.endsAt > now)
+        while (voices.length >= MAX_VOICES) {
+          releaseVoice(voices.shift()!, now)
+        }
+
+        const timbre = TIMBRES[surface]
+        const level = clampUnit(intensity)
+        const duration = timbre.durationMs / 1000
+        // Harder hits are louder and a little sharper
+        const frequency = settings.basePitch * timbre.ratio * (0.85 + level * 0.3)
+        const peak = MAX_IMPACT_GAIN * timbre.gain * (0.15 + level * 0.85)
+
+        const oscillator = ctx.createOscillator()
+        const gain = ctx.createGain()
+        oscillator.type = timbre.type
+        oscillator.frequency.setValueAtTime(frequency, now)
+        oscillator.frequency.exponentialRampToValueAtTime(frequency * timbre.sweep, now + duration)
+        gain.gain.setValueAtTime(peak, now)
+        gain.gain.exponentialRampToValueAtTime(0.001, now + duration)
+        oscillator.connect(gain)
+        gain.connect(master)
+        oscillator.start(now)
+        oscillator.stop(now + duration)
+        voices.push({ gain, oscillator, endsAt: now + duration })
+      } catch (error) {
+        console.log('Audio not available:', error)
+      }
+    },
+    // speed is the rolling speed relative to the fastest that ball can go, 0-1
+    setRolling(speed: number) {
+      if (!context || !rollingGain || !rollingFilter) return
+      const level = clampUnit(speed)
+      const now = context.currentTime
+      rollingGain.gain.setTargetAtTime(MAX_ROLLING_GAIN * level * level, now, ROLLING_RESPONSE_S)
+      rollingFilter.frequency.setTargetAtTime(settings.basePitch * (0.2 + level * 0.6), now, ROLLING_RESPONSE_S)
+    }
+  }
+}
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>
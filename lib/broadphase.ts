@@ -0,0 +1,56 @@
+// Uniform-grid broad phase for ball-ball collisions.
+// Each ball is bucketed by its centre into cells at least as wide as the largest ball's
+// diameter, so any touching pair must share a cell or sit in neighbouring cells.
+
+interface Circle {
+  x: number
+  y: number
+  radius: number
+}
+
+// Only half of the 3x3 neighbourhood is scanned so each pair of cells is visited once
+const NEIGHBOUR_OFFSETS: Array<[number, number]> = [[0, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`
+
+// Returns index pairs [i, j] with i < j whose bounding cells are adjacent
+export function findCandidatePairs(circles: Circle[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = []
+  if (circles.length < 2) return pairs
+
+  const maxRadius = circles.reduce((max, circle) => Math.max(max, circle.radius), 0)
+  const cellSize = Math.max(1, maxRadius * 2)
+  const cells = new Map<string, number[]>()
+
+  circles.forEach((circle, index) => {
+    const key = cellKey(Math.floor(circle.x / cellSize), Math.floor(circle.y / cellSize))
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(index)
+    } else {
+      cells.set(key, [index])
+    }
+  })
+
+  cells.forEach((members, key) => {
+    const [cx, cy] = key.split(',').map(Number)
+
+    for (const [ox, oy] of NEIGHBOUR_OFFSETS) {
+      const neighbours = ox === 0 && oy === 0 ? members : cells.get(cellKey(cx + ox, cy + oy))
+      if (!neighbours) continue
+
+      for (let m = 0; m < members.length; m++) {
+        // Within the same cell, start past `m` so no pair is emitted twice
+        const start = neighbours === members ? m + 1 : 0
+        for (let n = start; n < neighbours.length; n++) {
+          const i = members[m]
+          const j = neighbours[n]
+          pairs.push(i < j ? [i, j] : [j, i])
+        }
+      }
+    }
+  })
+
+  // Sort so resolution order is deterministic regardless of Map iteration
+  return pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+}
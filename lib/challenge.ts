@@ -0,0 +1,159 @@
+// Timed challenge mode: roll through targets for points, avoid the walls.
+// Pure state transitions driven by the physics events of each frame, so the
+// round can be simulated without a canvas.
+
+import { ArenaBounds, ArenaLayout, Ball, CollisionEvent, EMPTY_LAYOUT, isInsideArena } from './physics'
+
+export type GameMode = 'free' | 'challenge'
+
+export const CHALLENGE_DURATION_MS = 60_000
+export const TARGET_COUNT = 3
+export const TARGET_POINTS = 10
+export const WALL_PENALTY = 5
+export const MAX_COMBO_MULTIPLIER = 5
+
+export interface Target {
+  x: number
+  y: number
+  radius: number
+}
+
+export interface ChallengeState {
+  elapsedMs: number
+  score: number
+  combo: number     // Consecutive target hits since the last wall touch
+  bestCombo: number
+  hits: number
+  wallHits: number
+  targets: Target[]
+  finished: boolean
+}
+
+// Final outcome of a round, handed to anything that wants to show or submit it
+export interface ChallengeResult {
+  mode: 'challenge'
+  score: number
+  hits: number
+  wallHits: number
+  bestCombo: number
+  durationMs: number
+  completedAt: number // Epoch milliseconds
+}
+
+export type RandomSource = () => number
+
+// Targets keep this far from the walls so grazing one doesn't also cost a wall hit
+const TARGET_WALL_MARGIN = 30
+const MAX_PLACEMENT_ATTEMPTS = 50
+
+const targetRadius = (bounds: ArenaBounds) => Math.max(14, Math.min(bounds.width, bounds.height) * 0.05)
+
+const overlaps = (a: { x: number; y: number; radius: number }, b: { x: number; y: number; radius: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y) < a.radius + b.radius
+
+// Pick a spot inside the arena's outline, clear of the other targets and every ball; gives up and accepts overlap after enough tries
+function placeTarget(bounds: ArenaBounds, layout: ArenaLayout, occupied: Array<Target | Ball>, random: RandomSource): Target {
+  const radius = targetRadius(bounds)
+  const inset = radius + TARGET_WALL_MARGIN
+  let candidate: Target = { x: bounds.width / 2, y: bounds.height / 2, radius }
+
+  for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+    const spot: Target = {
+      x: inset + random() * Math.max(0, bounds.width - inset * 2),
+      y: inset + random() * Math.max(0, bounds.height - inset * 2),
+      radius
+    }
+    // Shaped arenas leave corners of the bounding box that can never be reached
+    if (!isInsideArena(spot, inset, bounds, layout)) continue
+    candidate = spot
+    if (!occupied.some(other => overlaps(candidate, other))) break
+  }
+
+  return candidate
+}
+
+export function createChallenge(
+  bounds: ArenaBounds,
+  balls: Ball[],
+  layout: ArenaLayout = EMPTY_LAYOUT,
+  random: RandomSource = Math.random
+): ChallengeState {
+  const targets: Target[] = []
+  for (let i = 0; i < TARGET_COUNT; i++) {
+    targets.push(placeTarget(bounds, layout, [...targets, ...balls], random))
+  }
+
+  return {
+    elapsedMs: 0,
+    score: 0,
+    combo: 0,
+    bestCombo: 0,
+    hits: 0,
+    wallHits: 0,
+    targets,
+    finished: false
+  }
+}
+
+export const comboMultiplier = (combo: number) => Math.min(MAX_COMBO_MULTIPLIER, Math.max(1, combo))
+
+export const remainingMs = (state: ChallengeState) => Math.max(0, CHALLENGE_DURATION_MS - state.elapsedMs)
+
+// Apply one frame: wall touches from `events`, target pickups from ball positions, then the clock
+export function updateChallenge(
+  state: ChallengeState,
+  elapsedMs: number,
+  balls: Ball[],
+  events: CollisionEvent[],
+  bounds: ArenaBounds,
+  layout: ArenaLayout = EMPTY_LAYOUT,
+  random: RandomSource = Math.random
+): ChallengeState {
+  if (state.finished) return state
+
+  let { score, combo, bestCombo, hits, wallHits } = state
+
+  // Each newly entered wall zone costs points and breaks the combo
+  const wallTouches = events.filter(event => event.type === 'zoneEnter').length
+  if (wallTouches > 0) {
+    wallHits += wallTouches
+    score = Math.max(0, score - wallTouches * WALL_PENALTY)
+    combo = 0
+  }
+
+  const targets = [...state.targets]
+  for (let i = 0; i < targets.length; i++) {
+    if (!balls.some(ball => overlaps(targets[i], ball))) continue
+
+    combo++
+    bestCombo = Math.max(bestCombo, combo)
+    hits++
+    score += TARGET_POINTS * comboMultiplier(combo)
+    targets[i] = placeTarget(bounds, layout, [...targets.filter((_, j) => j !== i), ...balls], random)
+  }
+
+  const nextElapsed = state.elapsedMs + elapsedMs
+
+  return {
+    elapsedMs: Math.min(nextElapsed, CHALLENGE_DURATION_MS),
+    score,
+    combo,
+    bestCombo,
+    hits,
+    wallHits,
+    targets,
+    finished: nextElapsed >= CHALLENGE_DURATION_MS
+  }
+}
+
+export function challengeResult(state: ChallengeState, completedAt: number = Date.now()): ChallengeResult {
+  return {
+    mode: 'challenge',
+    score: state.score,
+    hits: state.hits,
+    wallHits: state.wallHits,
+    bestCombo: state.bestCombo,
+    durationMs: state.elapsedMs,
+    completedAt
+  }
+}
@@ -0,0 +1,229 @@
+// Developer overlay for "the ball drifts" and "it's laggy" reports: frame
+// timing, sensor event rate, raw vs. smoothed acceleration, ball velocities,
+// the invisible wall zones and how the Farcaster SDK started up. Opened with
+// ?debug=1 or a long press on the menu button. Everything is kept in small
+// fixed-size buffers, so it can stay on while playing.
+
+import { SensorSample } from './input'
+import { ArenaBounds, ArenaWall, Ball } from './physics'
+
+export const DEBUG_PARAM = 'debug'
+
+export interface SdkStatus {
+  capabilities: string[] | null // Null until the check finishes
+  capabilitiesError: string | null
+  ready: 'pending' | 'ok' | 'failed'
+  readyError: string | null
+  readyMs: number | null // How long ready() took to settle
+}
+
+const FRAME_HISTORY = 120
+const SENSOR_HISTORY_MS = 2000
+const RATE_WINDOW_MS = 1000
+const PANEL_WIDTH = 240
+const PANEL_PADDING = 8
+const GRAPH_HEIGHT = 48
+const LINE_HEIGHT = 14
+// Frame-time graph ceiling; anything slower is pinned to the top
+const MAX_GRAPH_FRAME_MS = 50
+// The velocity arrow shows where the ball will be this many steps from now
+const VELOCITY_ARROW_STEPS = 8
+const ZONE_COLOR = 'rgba(255, 71, 87, 0.2)'
+const X_COLOR = '#ff6b6b'
+const Y_COLOR = '#4ecdc4'
+
+export function debugFlagFromQuery(search: string): boolean {
+  const value = new URLSearchParams(search).get(DEBUG_PARAM)
+  return value !== null && value !== '0' && value !== 'false'
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+const check = (done: boolean) => (done ? '✓' : '…')
+
+// A zone is entered when the ball's edge comes within `zoneSize` of a wall, so each band is that wide
+function drawZoneBands(ctx: CanvasRenderingContext2D, walls: ArenaWall[] | null, bounds: ArenaBounds, zoneSize: number) {
+  ctx.fillStyle = ZONE_COLOR
+  ctx.strokeStyle = ZONE_COLOR
+  if (!walls) {
+    ctx.fillRect(0, 0, zoneSize, bounds.height)
+    ctx.fillRect(bounds.width - zoneSize, 0, zoneSize, bounds.height)
+    ctx.fillRect(0, 0, bounds.width, zoneSize)
+    ctx.fillRect(0, bounds.height - zoneSize, bounds.width, zoneSize)
+    return
+  }
+
+  ctx.lineWidth = zoneSize
+  ctx.lineCap = 'butt'
+  for (const wall of walls) {
+    ctx.beginPath()
+    if (wall.type === 'line') {
+      const offsetX = (wall.nx * zoneSize) / 2
+      const offsetY = (wall.ny * zoneSize) / 2
+      ctx.moveTo(wall.x1 + offsetX, wall.y1 + offsetY)
+      ctx.lineTo(wall.x2 + offsetX, wall.y2 + offsetY)
+    } else {
+      ctx.arc(wall.x, wall.y, Math.max(0, wall.radius - zoneSize / 2), wall.start, wall.start + wall.sweep)
+    }
+    ctx.stroke()
+  }
+}
+
+function drawVelocity(ctx: CanvasRenderingContext2D, ball: Ball) {
+  const tipX = ball.x + ball.vx * VELOCITY_ARROW_STEPS
+  const tipY = ball.y + ball.vy * VELOCITY_ARROW_STEPS
+  const angle = Math.atan2(ball.vy, ball.vx)
+  ctx.strokeStyle = '#ffe66d'
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(ball.x, ball.y)
+  ctx.lineTo(tipX, tipY)
+  ctx.lineTo(tipX - Math.cos(angle - 0.5) * 6, tipY - Math.sin(angle - 0.5) * 6)
+  ctx.moveTo(tipX, tipY)
+  ctx.lineTo(tipX - Math.cos(angle + 0.5) * 6, tipY - Math.sin(angle + 0.5) * 6)
+  ctx.stroke()
+}
+
+export function createDebugOverlay() {
+  const frameTimes: number[] = []
+  let sensorSamples: SensorSample[] = []
+  const sdk: SdkStatus = { capabilities: null, capabilitiesError: null, ready: 'pending', readyError: null, readyMs: null }
+
+  // Plot one series over the last SENSOR_HISTORY_MS, with ±1g filling the graph
+  const plotSensor = (
+    ctx: CanvasRenderingContext2D,
+    left: number,
+    top: number,
+    now: number,
+    value: (sample: SensorSample) => number,
+    color: string,
+    alpha: number
+  ) => {
+    const width = PANEL_WIDTH - PANEL_PADDING * 2
+    ctx.globalAlpha = alpha
+    ctx.strokeStyle = color
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    sensorSamples.forEach((sample, i) => {
+      const x = left + width * (1 - (now - sample.time) / SENSOR_HISTORY_MS)
+      const y = top + GRAPH_HEIGHT / 2 - Math.max(-1, Math.min(1, value(sample))) * (GRAPH_HEIGHT / 2)
+      if (i === 0) ctx.moveTo(x, y)
+      else ctx.lineTo(x, y)
+    })
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  }
+
+  return {
+    sdk: sdk as Readonly<SdkStatus>,
+    capabilitiesChecked(capabilities: unknown) {
+      sdk.capabilities = Array.isArray(capabilities) ? capabilities.filter(item => typeof item === 'string') : []
+    },
+    capabilitiesFailed(error: unknown) {
+      sdk.capabilities = []
+      sdk.capabilitiesError = describeError(error)
+    },
+    readySettled(durationMs: number, error?: unknown) {
+      sdk.ready = error === undefined ? 'ok' : 'failed'
+      sdk.readyError = error === undefined ? null : describeError(error)
+      sdk.readyMs = durationMs
+    },
+    frame(elapsedMs: number) {
+      // The first frame has no previous one to measure against
+      if (elapsedMs <= 0) return
+      frameTimes.push(elapsedMs)
+      if (frameTimes.length > FRAME_HISTORY) frameTimes.shift()
+    },
+    sensor(sample: SensorSample) {
+      sensorSamples.push(sample)
+      sensorSamples = sensorSamples.filter(item => sample.time - item.time <= SENSOR_HISTORY_MS)
+    },
+    // In arena coordinates, over the balls
+    drawArena(ctx: CanvasRenderingContext2D, balls: Ball[], walls: ArenaWall[] | null, bounds: ArenaBounds, zoneSize: number) {
+      drawZoneBands(ctx, walls, bounds, zoneSize)
+      balls.forEach(ball => drawVelocity(ctx, ball))
+    },
+    // In screen coordinates, growing up from `bottom`
+    drawPanel(ctx: CanvasRenderingContext2D, left: number, bottom: number, loading: Record<string, boolean>, now: number) {
+      const averageMs = frameTimes.length > 0 ? frameTimes.reduce((sum, ms) => sum + ms, 0) / frameTimes.length : 0
+      const worstMs = frameTimes.reduce((worst, ms) => Math.max(worst, ms), 0)
+      const sensorRate = sensorSamples.filter(sample => now - sample.time <= RATE_WINDOW_MS).length
+      const capabilities = sdk.capabilitiesError
+        ? `failed: ${sdk.capabilitiesError}`
+        : sdk.capabilities === null
+          ? 'checking…'
+          : sdk.capabilities.join(', ') || 'none'
+      const ready = sdk.ready === 'pending'
+        ? 'pending'
+        : `${sdk.ready === 'ok' ? 'ok' : `failed: ${sdk.readyError}`} in ${Math.round(sdk.readyMs ?? 0)}ms`
+
+      const lines = [
+        `FPS ${averageMs > 0 ? (1000 / averageMs).toFixed(1) : '-'}  frame ${averageMs.toFixed(1)}ms (worst ${worstMs.toFixed(1)})`,
+        `Sensor events ${sensorRate}/s`,
+        // canvasInitialized reads as "canvas ✓"
+        `Loading ${Object.entries(loading).map(([key, done]) => `${key.replace(/[A-Z].*$/, '')} ${check(done)}`).join(' ')}`,
+        `SDK ready() ${ready}`,
+        `Capabilities ${capabilities}`
+      ]
+
+      const width = PANEL_WIDTH - PANEL_PADDING * 2
+      const height = PANEL_PADDING * 2 + lines.length * LINE_HEIGHT + (GRAPH_HEIGHT + PANEL_PADDING) * 2
+      const top = bottom - height
+      ctx.save()
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)'
+      ctx.fillRect(left, top, PANEL_WIDTH, height)
+
+      // Long lines are clipped to the panel rather than wrapped
+      ctx.beginPath()
+      ctx.rect(left, top, PANEL_WIDTH, height)
+      ctx.clip()
+      ctx.fillStyle = '#ffffff'
+      ctx.font = '10px monospace'
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'top'
+      lines.forEach((line, i) => ctx.fillText(line, left + PANEL_PADDING, top + PANEL_PADDING + i * LINE_HEIGHT))
+
+      // Frame times, newest on the right, with guides at 60 and 30 fps
+      const frameTop = top + PANEL_PADDING + lines.length * LINE_HEIGHT
+      const frameY = (ms: number) => frameTop + GRAPH_HEIGHT - (Math.min(ms, MAX_GRAPH_FRAME_MS) / MAX_GRAPH_FRAME_MS) * GRAPH_HEIGHT
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.08)'
+      ctx.fillRect(left + PANEL_PADDING, frameTop, width, GRAPH_HEIGHT)
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      for (const guide of [1000 / 60, 1000 / 30]) {
+        ctx.moveTo(left + PANEL_PADDING, frameY(guide))
+        ctx.lineTo(left + PANEL_PADDING + width, frameY(guide))
+      }
+      ctx.stroke()
+      const barWidth = width / FRAME_HISTORY
+      frameTimes.forEach((ms, i) => {
+        ctx.fillStyle = ms > 1000 / 30 ? '#ff4757' : ms > 1000 / 55 ? '#ffe66d' : '#55efc4'
+        const x = left + PANEL_PADDING + width - (frameTimes.length - i) * barWidth
+        ctx.fillRect(x, frameY(ms), Math.max(1, barWidth - 0.5), frameTop + GRAPH_HEIGHT - frameY(ms))
+      })
+
+      // Acceleration in g: raw readings faint, smoothed ones solid; x in red, y in teal
+      const sensorTop = frameTop + GRAPH_HEIGHT + PANEL_PADDING
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.08)'
+      ctx.fillRect(left + PANEL_PADDING, sensorTop, width, GRAPH_HEIGHT)
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)'
+      ctx.beginPath()
+      ctx.moveTo(left + PANEL_PADDING, sensorTop + GRAPH_HEIGHT / 2)
+      ctx.lineTo(left + PANEL_PADDING + width, sensorTop + GRAPH_HEIGHT / 2)
+      ctx.stroke()
+      if (sensorSamples.length === 0) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)'
+        ctx.fillText('No sensor events', left + PANEL_PADDING * 2, sensorTop + PANEL_PADDING)
+      }
+      const graphLeft = left + PANEL_PADDING
+      plotSensor(ctx, graphLeft, sensorTop, now, sample => sample.raw.x, X_COLOR, 0.35)
+      plotSensor(ctx, graphLeft, sensorTop, now, sample => sample.raw.y, Y_COLOR, 0.35)
+      plotSensor(ctx, graphLeft, sensorTop, now, sample => sample.filtered.x, X_COLOR, 1)
+      plotSensor(ctx, graphLeft, sensorTop, now, sample => sample.filtered.y, Y_COLOR, 1)
+      ctx.restore()
+    }
+  }
+}
+
+export type DebugOverlay = ReturnType<typeof createDebugOverlay>
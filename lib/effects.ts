@@ -0,0 +1,187 @@
+// Purely visual effects layered over the simulation: motion trails, squash
+// and stretch on wall hits, and particle bursts on impacts. They read the
+// same collision events as audio and haptics and never feed back into the
+// physics, so replays and multiplayer stay deterministic.
+
+import { Ball, CollisionEvent, PhysicsParams, speedLimit, Vector } from './physics'
+
+export interface EffectsSettings {
+  trails: boolean
+  squash: boolean
+  particles: boolean
+}
+
+interface TrailPoint {
+  x: number
+  y: number
+  time: number
+}
+
+interface Squash {
+  angle: number // Of the collision normal, in radians
+  amount: number
+  startedAt: number
+}
+
+interface Particle {
+  x: number
+  y: number
+  vx: number // px/ms
+  vy: number
+  bornAt: number
+  lifeMs: number
+  size: number
+  color: string
+}
+
+const TRAIL_MS = 180
+const TRAIL_OPACITY = 0.35
+const MAX_SQUASH = 0.3
+const SQUASH_MS = 260
+const SQUASH_PERIOD_MS = 130
+const SQUASH_DECAY_MS = 70
+const MAX_PARTICLES = 240
+const MAX_PARTICLES_PER_IMPACT = 12
+const PARTICLE_SPEED = 0.25 // px/ms at full impact
+// Impacts softer than this don't throw particles
+const MIN_PARTICLE_INTENSITY = 0.15
+
+// Impacts at the ball's own speed cap get the full effect
+const intensity = (speed: number, ball: Ball, params: PhysicsParams) => Math.min(1, speed / speedLimit(ball, params))
+
+export function createEffects(initialSettings: EffectsSettings) {
+  let settings = initialSettings
+  let trails: TrailPoint[][] = []
+  let squashes: Array<Squash | null> = []
+  let particles: Particle[] = []
+  let lastDrawAt: number | null = null
+
+  // A short burst thrown away from the contact point, mostly along `normal`
+  const burst = (point: Vector, normal: Vector, color: string, strength: number, now: number) => {
+    const count = Math.round(MAX_PARTICLES_PER_IMPACT * strength)
+    const baseAngle = Math.atan2(normal.y, normal.x)
+    for (let i = 0; i < count && particles.length < MAX_PARTICLES; i++) {
+      const angle = baseAngle + (Math.random() - 0.5) * Math.PI * 0.9
+      const speed = PARTICLE_SPEED * strength * (0.4 + Math.random() * 0.6)
+      particles.push({
+        x: point.x,
+        y: point.y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        bornAt: now,
+        lifeMs: 250 + Math.random() * 250,
+        size: 1 + Math.random() * 2 * strength,
+        color
+      })
+    }
+  }
+
+  return {
+    configure(nextSettings: EffectsSettings) {
+      settings = nextSettings
+      if (!settings.trails) trails = []
+      if (!settings.squash) squashes = []
+      if (!settings.particles) particles = []
+    },
+    // Balls were added, removed or moved outside the simulation
+    reset() {
+      trails = []
+      squashes = []
+      particles = []
+    },
+    // `balls` and `params` are what the events were produced with
+    collide(events: CollisionEvent[], balls: Ball[], params: PhysicsParams, now: number) {
+      for (const event of events) {
+        const ball = balls[event.ball]
+        if (!ball) continue
+
+        if (event.type === 'bounce') {
+          const strength = intensity(event.speed, ball, params)
+          const { normal } = event
+          if (settings.squash) {
+            squashes[event.ball] = { angle: Math.atan2(normal.y, normal.x), amount: MAX_SQUASH * strength, startedAt: now }
+          }
+          if (settings.particles && strength >= MIN_PARTICLE_INTENSITY) {
+            const contact = { x: ball.x - normal.x * ball.radius, y: ball.y - normal.y * ball.radius }
+            burst(contact, normal, ball.color, strength, now)
+          }
+        } else if (event.type === 'ballHit' && settings.particles) {
+          const other = balls[event.other]
+          const strength = intensity(event.speed, ball, params)
+          if (!other || strength < MIN_PARTICLE_INTENSITY) continue
+          // Sparks fly out sideways from the point where the two balls touch
+          const distance = Math.hypot(other.x - ball.x, other.y - ball.y) || 1
+          const nx = (other.x - ball.x) / distance
+          const ny = (other.y - ball.y) / distance
+          const contact = { x: ball.x + nx * ball.radius, y: ball.y + ny * ball.radius }
+          burst(contact, { x: -ny, y: nx }, ball.color, strength / 2, now)
+          burst(contact, { x: ny, y: -nx }, other.color, strength / 2, now)
+        } else if (event.type === 'obstacleHit' && settings.particles) {
+          const strength = intensity(event.speed, ball, params)
+          if (strength < MIN_PARTICLE_INTENSITY) continue
+          const speed = Math.hypot(ball.vx, ball.vy) || 1
+          burst({ x: ball.x, y: ball.y }, { x: ball.vx / speed, y: ball.vy / speed }, ball.color, strength, now)
+        }
+      }
+    },
+    // Scale to draw a ball at along the collision normal and across it, or null when it's round
+    squash(index: number, now: number): { angle: number; along: number; across: number } | null {
+      const squash = squashes[index]
+      if (!squash) return null
+      const age = now - squash.startedAt
+      if (age >= SQUASH_MS) {
+        squashes[index] = null
+        return null
+      }
+      // A damped wobble: flattened against the wall, then briefly stretched away from it
+      const amount =
+        squash.amount * Math.exp(-age / SQUASH_DECAY_MS) * Math.cos((age / SQUASH_PERIOD_MS) * Math.PI * 2)
+      return { angle: squash.angle, along: 1 - amount, across: 1 + amount / 2 }
+    },
+    // Trails sit under the balls; call once per frame with the balls about to be drawn
+    drawTrails(ctx: CanvasRenderingContext2D, balls: Ball[], now: number) {
+      if (!settings.trails) return
+      trails.length = balls.length
+      balls.forEach((ball, index) => {
+        const trail = (trails[index] ?? []).filter(point => now - point.time < TRAIL_MS)
+        // A jump (hole, respawn) starts a fresh trail instead of streaking across the arena
+        const last = trail[trail.length - 1]
+        if (last && Math.hypot(ball.x - last.x, ball.y - last.y) > ball.radius * 4) trail.length = 0
+        trail.push({ x: ball.x, y: ball.y, time: now })
+        trails[index] = trail
+
+        // Faster balls cover more ground in TRAIL_MS, so the trail grows with speed
+        ctx.lineCap = 'round'
+        ctx.strokeStyle = ball.color
+        for (let i = 1; i < trail.length; i++) {
+          const fade = 1 - (now - trail[i].time) / TRAIL_MS
+          ctx.globalAlpha = TRAIL_OPACITY * fade
+          ctx.lineWidth = ball.radius * 2 * fade
+          ctx.beginPath()
+          ctx.moveTo(trail[i - 1].x, trail[i - 1].y)
+          ctx.lineTo(trail[i].x, trail[i].y)
+          ctx.stroke()
+        }
+        ctx.globalAlpha = 1
+      })
+    },
+    // Particles sit over the balls
+    drawParticles(ctx: CanvasRenderingContext2D, now: number) {
+      const elapsedMs = lastDrawAt === null ? 0 : Math.min(50, now - lastDrawAt)
+      lastDrawAt = now
+      particles = particles.filter(particle => now - particle.bornAt < particle.lifeMs)
+      for (const particle of particles) {
+        particle.x += particle.vx * elapsedMs
+        particle.y += particle.vy * elapsedMs
+        ctx.globalAlpha = 1 - (now - particle.bornAt) / particle.lifeMs
+        ctx.fillStyle = particle.color
+        ctx.beginPath()
+        ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2)
+        ctx.fill()
+      }
+      ctx.globalAlpha = 1
+    }
+  }
+}
+
+export type Effects = ReturnType<typeof createEffects>
@@ -0,0 +1,151 @@
+// Vibration feedback for impacts. Uses the Farcaster haptics bridge when the
+// host supports it and the browser Vibration API otherwise. Hits are graded
+// by speed and throttled so corner rattles don't flood the bridge.
+
+import { sdk } from '@farcaster/frame-sdk'
+import { Surface } from './audio'
+import { Ball, CollisionEvent, PhysicsParams, speedLimit } from './physics'
+import { withTimeout } from './timeout'
+
+export type HapticStyle = 'light' | 'medium' | 'heavy' | 'rigid' | 'soft'
+
+export type HapticBackend = 'farcaster' | 'vibrate'
+
+export const HAPTIC_CAPABILITY = 'haptics.impactOccurred'
+
+// Ordering used to keep the strongest of several throttled hits. Rigid is a crisp tap,
+// so it sits with the light styles rather than above medium.
+const STRENGTH: Record<HapticStyle, number> = { soft: 0, light: 1, rigid: 2, medium: 3, heavy: 4 }
+
+// Pulse lengths that approximate each style on plain vibration motors, in the same order
+const VIBRATION_MS: Record<HapticStyle, number> = { soft: 8, light: 10, rigid: 12, medium: 20, heavy: 35 }
+
+const MIN_INTERVAL_MS = 80
+const HAPTIC_TIMEOUT_MS = 1000
+
+// Farcaster hosts that advertise impact feedback support every style; otherwise fall back to the browser
+export function detectHapticBackend(capabilities: unknown): HapticBackend | null {
+  if (Array.isArray(capabilities) && capabilities.includes(HAPTIC_CAPABILITY)) return 'farcaster'
+  if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') return 'vibrate'
+  return null
+}
+
+// intensity is the impact speed relative to the fastest the ball can go, 0-1
+function hapticStyleFor(surface: Surface, intensity: number): HapticStyle {
+  if (surface === 'hole' || surface === 'goal') return 'heavy'
+  // Balls knocking together feel softer than hitting the arena
+  if (surface === 'ball') return intensity < 0.5 ? 'soft' : 'medium'
+  // Gentle taps on the hard arena edge feel sharp; on obstacles, just light
+  if (intensity < 0.3) return surface === 'obstacle' ? 'light' : 'rigid'
+  return intensity < 0.65 ? 'medium' : 'heavy'
+}
+
+const strongerStyle = (a: HapticStyle, b: HapticStyle) => (STRENGTH[b] > STRENGTH[a] ? b : a)
+
+// Walls buzz as a ball enters their zone, just before the bounce, which hides the bridge's latency
+function hapticStyleForEvent(event: CollisionEvent, balls: Ball[], params: PhysicsParams): HapticStyle | null {
+  // A ball that just left the arena is gone from `balls`; the engine-wide cap stands in for it
+  const limit = (index: number) => (balls[index] ? speedLimit(balls[index], params) : params.maxVelocity)
+  switch (event.type) {
+    case 'zoneEnter': {
+      const ball = balls[event.ball]
+      if (!ball) return null
+      const speed = Math.abs(ball.vx * event.normal.x + ball.vy * event.normal.y)
+      return hapticStyleFor(event.wall, speed / limit(event.ball))
+    }
+    case 'ballHit':
+      return hapticStyleFor('ball', event.speed / limit(event.ball))
+    case 'obstacleHit':
+      return hapticStyleFor('obstacle', event.speed / limit(event.ball))
+    case 'hole':
+    case 'goal':
+      return hapticStyleFor(event.type, 1)
+    case 'bounce':
+      return null
+  }
+}
+
+// One pulse per frame: the strongest of its impacts
+export function hapticStyleForEvents(events: CollisionEvent[], balls: Ball[], params: PhysicsParams): HapticStyle | null {
+  let strongest: HapticStyle | null = null
+  for (const event of events) {
+    const style = hapticStyleForEvent(event, balls, params)
+    if (style) strongest = strongest ? strongerStyle(strongest, style) : style
+  }
+  return strongest
+}
+
+export function createHapticsPlayer(initialBackend: HapticBackend) {
+  let backend: HapticBackend | null = initialBackend
+  let lastPulseAt = -Infinity
+  let inFlight = false
+  let pending: HapticStyle | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const vibrate = (style: HapticStyle) => {
+    try {
+      navigator.vibrate(VIBRATION_MS[style])
+    } catch (error) {
+      console.log('Vibration failed:', error)
+      backend = null
+    }
+  }
+
+  const impactOccurred = async (style: HapticStyle) => {
+    inFlight = true
+    try {
+      // Add timeout so a blocked bridge call can't hold up later pulses
+      await withTimeout(sdk.haptics.impactOccurred(style), HAPTIC_TIMEOUT_MS, 'Haptic timeout')
+    } catch (error) {
+      // CSP restrictions might block this - fall back to the browser for later hits
+      console.log('Haptic feedback failed (possibly CSP-related):', error)
+      backend = detectHapticBackend(null)
+    } finally {
+      inFlight = false
+    }
+  }
+
+  const fire = (style: HapticStyle) => {
+    lastPulseAt = performance.now()
+    if (backend === 'farcaster') {
+      impactOccurred(style)
+    } else if (backend === 'vibrate') {
+      vibrate(style)
+    }
+  }
+
+  const flush = () => {
+    timer = null
+    const style = pending
+    pending = null
+    // Still waiting on the bridge: drop the hit rather than queue behind it
+    if (style && !inFlight) fire(style)
+  }
+
+  return {
+    // False once every backend has failed, so callers can fall back to sound
+    get available() {
+      return backend !== null
+    },
+    pulse(style: HapticStyle) {
+      if (backend === null) return
+      const waitMs = MIN_INTERVAL_MS - (performance.now() - lastPulseAt)
+      if (waitMs <= 0 && !inFlight) {
+        fire(style)
+        return
+      }
+      // Keep only the strongest hit that arrived during the cooldown
+      pending = pending ? strongerStyle(pending, style) : style
+      if (!timer) {
+        timer = setTimeout(flush, Math.max(waitMs, 0))
+      }
+    },
+    cancel() {
+      if (timer) clearTimeout(timer)
+      timer = null
+      pending = null
+    }
+  }
+}
+
+export type HapticsPlayer = ReturnType<typeof createHapticsPlayer>
@@ -0,0 +1,264 @@
+// Input providers turn a control scheme into a tilt vector for the physics.
+// Every provider reports the same normalized acceleration: each axis is in
+// [-1, 1], where 1 is the pull of a phone held vertically (1g) and +y points
+// down the screen.
+
+import { STANDARD_GRAVITY, Vector } from './physics'
+import { createLowPassFilter, DEFAULT_TILT_SETTINGS, deviceToScreen, screenAngle, TiltSettings } from './motion'
+
+export type InputSourceId = 'motion' | 'orientation' | 'keyboard' | 'mouse' | 'gamepad' | 'demo'
+
+export type TiltSourceId = Extract<InputSourceId, 'motion' | 'orientation'>
+
+export interface InputProvider {
+  readonly id: InputSourceId
+  start(): void
+  stop(): void
+  read(now: number): Vector
+}
+
+// One sensor event in screen space, before and after smoothing
+export interface SensorSample {
+  time: number
+  raw: Vector
+  filtered: Vector
+}
+
+// Sensor-backed providers can be tuned and calibrated while running
+export interface TiltInputProvider extends InputProvider {
+  readonly id: TiltSourceId
+  configure(settings: TiltSettings): void
+  // Smoothed reading before the calibration offset is removed
+  readUncalibrated(): Vector
+  // Diagnostics hook: called on every sensor event until replaced or cleared with null
+  observe(observer: ((sample: SensorSample) => void) | null): void
+}
+
+export const isTiltSource = (id: InputSourceId): id is TiltSourceId => id === 'motion' || id === 'orientation'
+
+export const isTiltProvider = (provider: InputProvider | null): provider is TiltInputProvider =>
+  provider !== null && isTiltSource(provider.id)
+
+export const INPUT_SOURCES: Array<{ id: InputSourceId; label: string }> = [
+  { id: 'motion', label: 'Device tilt' },
+  { id: 'orientation', label: 'Device orientation' },
+  { id: 'keyboard', label: 'Keyboard (arrows / WASD)' },
+  { id: 'mouse', label: 'Mouse tilt' },
+  { id: 'gamepad', label: 'Gamepad' },
+  { id: 'demo', label: 'Demo' }
+]
+
+const GAMEPAD_DEAD_ZONE = 0.15
+
+const ZERO: Vector = { x: 0, y: 0 }
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value))
+
+const degreesToRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Device sensors, remapped for the current screen orientation, smoothed and offset by calibration.
+// `motion` reads accelerationIncludingGravity from DeviceMotionEvent; `orientation` reads
+// beta/gamma from DeviceOrientationEvent. Permission must already be granted.
+export function createTiltInput(source: TiltSourceId, initialSettings: TiltSettings = DEFAULT_TILT_SETTINGS): TiltInputProvider {
+  let settings = initialSettings
+  const filter = createLowPassFilter(settings.smoothingMs)
+  let filtered: Vector = ZERO
+  let observer: ((sample: SensorSample) => void) | null = null
+
+  // Device-frame vectors point the way the ball should roll, with y towards the top edge
+  const pushDeviceVector = (device: Vector, time: number) => {
+    const raw = deviceToScreen(device, screenAngle())
+    filtered = filter.push(raw, time)
+    observer?.({ time, raw, filtered })
+  }
+
+  const handleDeviceMotion = (event: DeviceMotionEvent) => {
+    if (event.accelerationIncludingGravity) {
+      pushDeviceVector({
+        x: (event.accelerationIncludingGravity.x || 0) / STANDARD_GRAVITY,
+        y: (event.accelerationIncludingGravity.y || 0) / STANDARD_GRAVITY
+      }, event.timeStamp)
+    }
+  }
+
+  const handleDeviceOrientation = (event: DeviceOrientationEvent) => {
+    if (event.beta === null || event.gamma === null) return
+    // Raising the top edge (positive beta) rolls the ball towards the bottom edge
+    pushDeviceVector({
+      x: Math.sin(degreesToRadians(event.gamma)),
+      y: -Math.sin(degreesToRadians(event.beta))
+    }, event.timeStamp)
+  }
+
+  const reset = () => {
+    filter.reset()
+    filtered = ZERO
+  }
+
+  return {
+    id: source,
+    start: () => {
+      if (source === 'motion') {
+        window.addEventListener('devicemotion', handleDeviceMotion)
+      } else {
+        window.addEventListener('deviceorientation', handleDeviceOrientation)
+      }
+    },
+    stop: () => {
+      window.removeEventListener('devicemotion', handleDeviceMotion)
+      window.removeEventListener('deviceorientation', handleDeviceOrientation)
+      reset()
+    },
+    configure: (nextSettings: TiltSettings) => {
+      settings = nextSettings
+      filter.setSmoothing(settings.smoothingMs)
+    },
+    readUncalibrated: () => filtered,
+    observe: (nextObserver: ((sample: SensorSample) => void) | null) => {
+      observer = nextObserver
+    },
+    read: () => ({
+      x: clampUnit(filtered.x - settings.offset.x),
+      y: clampUnit(filtered.y - settings.offset.y)
+    })
+  }
+}
+
+const KEY_DIRECTIONS: Record<string, Vector> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  a: { x: -1, y: 0 },
+  d: { x: 1, y: 0 },
+  w: { x: 0, y: -1 },
+  s: { x: 0, y: 1 }
+}
+
+// Held keys tilt the arena fully in their direction; diagonals are normalized
+export function createKeyboardInput(): InputProvider {
+  const pressed = new Set<string>()
+
+  const keyName = (event: KeyboardEvent) => (event.key.length === 1 ? event.key.toLowerCase() : event.key)
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const key = keyName(event)
+    if (!KEY_DIRECTIONS[key]) return
+    // Don't steal keys from sliders and other menu controls
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return
+    pressed.add(key)
+    event.preventDefault()
+  }
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    pressed.delete(keyName(event))
+  }
+
+  // Keys released while the window is unfocused never fire keyup
+  const handleBlur = () => pressed.clear()
+
+  return {
+    id: 'keyboard',
+    start: () => {
+      window.addEventListener('keydown', handleKeyDown)
+      window.addEventListener('keyup', handleKeyUp)
+      window.addEventListener('blur', handleBlur)
+    },
+    stop: () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
+      pressed.clear()
+    },
+    read: () => {
+      let x = 0
+      let y = 0
+      pressed.forEach(key => {
+        x += KEY_DIRECTIONS[key].x
+        y += KEY_DIRECTIONS[key].y
+      })
+      const length = Math.hypot(x, y)
+      return length > 1 ? { x: x / length, y: y / length } : { x: clampUnit(x), y: clampUnit(y) }
+    }
+  }
+}
+
+// The pointer's offset from the centre of the window acts as a virtual tilt
+export function createMouseInput(): InputProvider {
+  let latest: Vector = ZERO
+
+  const handleMouseMove = (event: MouseEvent) => {
+    const halfWidth = window.innerWidth / 2
+    const halfHeight = window.innerHeight / 2
+    latest = {
+      x: clampUnit((event.clientX - halfWidth) / halfWidth),
+      y: clampUnit((event.clientY - halfHeight) / halfHeight)
+    }
+  }
+
+  // Level the arena when the pointer leaves the page
+  const handleMouseLeave = () => {
+    latest = ZERO
+  }
+
+  return {
+    id: 'mouse',
+    start: () => {
+      window.addEventListener('mousemove', handleMouseMove)
+      document.addEventListener('mouseleave', handleMouseLeave)
+    },
+    stop: () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseleave', handleMouseLeave)
+      latest = ZERO
+    },
+    read: () => latest
+  }
+}
+
+// Left stick of the first connected gamepad. The Gamepad API is polled, so there is nothing to listen to.
+export function createGamepadInput(): InputProvider {
+  const applyDeadZone = (value: number) =>
+    Math.abs(value) < GAMEPAD_DEAD_ZONE ? 0 : clampUnit((value - Math.sign(value) * GAMEPAD_DEAD_ZONE) / (1 - GAMEPAD_DEAD_ZONE))
+
+  return {
+    id: 'gamepad',
+    start: () => {},
+    stop: () => {},
+    read: () => {
+      if (typeof navigator === 'undefined' || !navigator.getGamepads) return ZERO
+      const gamepad = Array.from(navigator.getGamepads()).find(pad => pad && pad.connected)
+      if (!gamepad || gamepad.axes.length < 2) return ZERO
+      return { x: applyDeadZone(gamepad.axes[0]), y: applyDeadZone(gamepad.axes[1]) }
+    }
+  }
+}
+
+// Idle attract mode: a gentle looping figure that keeps the ball moving until someone picks a control
+export function createDemoInput(): InputProvider {
+  return {
+    id: 'demo',
+    start: () => {},
+    stop: () => {},
+    read: (now: number) => ({
+      x: Math.sin(now * 0.001),
+      y: Math.cos(now * 0.0015)
+    })
+  }
+}
+
+export function createInputProvider(id: InputSourceId, tiltSettings?: TiltSettings): InputProvider {
+  switch (id) {
+    case 'motion':
+    case 'orientation':
+      return createTiltInput(id, tiltSettings)
+    case 'keyboard':
+      return createKeyboardInput()
+    case 'mouse':
+      return createMouseInput()
+    case 'gamepad':
+      return createGamepadInput()
+    case 'demo':
+      return createDemoInput()
+  }
+}
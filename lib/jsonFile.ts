@@ -0,0 +1,52 @@
+// A JSON document on disk shared by the file-backed stores. Operations are
+// serialized in-process and writes are swapped in with a rename, so concurrent
+// requests can't interleave and a crash mid-write leaves the previous file intact.
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+
+export function createJsonFile<T>(file: string, parse: (data: unknown) => T, empty: () => T) {
+  let cached: T | null = null
+  let pending: Promise<unknown> = Promise.resolve()
+
+  const load = async (): Promise<T> => {
+    if (cached !== null) return cached
+    try {
+      cached = parse(JSON.parse(await readFile(file, 'utf8')))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.log(`${path.basename(file)} could not be read, starting empty:`, error)
+      }
+      cached = empty()
+    }
+    return cached
+  }
+
+  const persist = async (data: T) => {
+    await mkdir(path.dirname(file), { recursive: true })
+    const temporary = `${file}.${process.pid}.tmp`
+    await writeFile(temporary, JSON.stringify(data))
+    await rename(temporary, file)
+  }
+
+  // Queue each operation behind the previous one
+  const serialize = <R>(operation: () => Promise<R>): Promise<R> => {
+    const result = pending.then(operation)
+    pending = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    read: (): Promise<T> => serialize(load),
+    // `change` must return a new value rather than mutate the current one
+    update: (change: (current: T) => T): Promise<T> =>
+      serialize(async () => {
+        const next = change(await load())
+        await persist(next)
+        cached = next
+        return next
+      })
+  }
+}
+
+export type JsonFile<T> = ReturnType<typeof createJsonFile<T>>
@@ -0,0 +1,201 @@
+// Leaderboard types, submission validation and the client side of the scores API.
+// Players are identified by their Farcaster fid when the app runs inside a
+// client, or by a random guest id kept in localStorage otherwise.
+
+import {
+  CHALLENGE_DURATION_MS,
+  ChallengeResult,
+  MAX_COMBO_MULTIPLIER,
+  TARGET_POINTS,
+  WALL_PENALTY
+} from './challenge'
+
+export type LeaderboardMode = ChallengeResult['mode']
+
+export type LeaderboardPeriod = 'daily' | 'all'
+
+export const LEADERBOARD_SIZE = 20
+
+export type Player =
+  | { type: 'farcaster'; fid: number; username: string | null }
+  | { type: 'guest'; guestId: string }
+
+export interface ScoreSubmission {
+  player: Player
+  result: ChallengeResult
+}
+
+export interface ScoreEntry {
+  playerKey: string
+  name: string
+  mode: LeaderboardMode
+  score: number
+  hits: number
+  bestCombo: number
+  submittedAt: number // Epoch milliseconds, set by the server
+}
+
+export interface RankedEntry extends ScoreEntry {
+  rank: number
+}
+
+export interface LeaderboardResponse {
+  entries: RankedEntry[]
+  // The requesting player's best entry, even when it's outside the top entries
+  player: RankedEntry | null
+}
+
+export class ScoreValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScoreValidationError'
+  }
+}
+
+// Rounds end on the first frame past the limit, so allow a frame or two of overrun
+const DURATION_TOLERANCE_MS = 1000
+// Faster than anyone can roll between freshly placed targets
+const MAX_HITS_PER_SECOND = 3
+const GUEST_ID_PATTERN = /^[0-9a-f-]{36}$/
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/i
+const GUEST_STORAGE_KEY = 'fidgetball:guest'
+
+export const playerKey = (player: Player) =>
+  player.type === 'farcaster' ? `fid:${player.fid}` : `guest:${player.guestId}`
+
+export const playerName = (player: Player) =>
+  player.type === 'farcaster' ? (player.username ? `@${player.username}` : `fid ${player.fid}`) : `Guest ${player.guestId.slice(0, 4)}`
+
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const readCount = (fields: Record<string, unknown>, key: string): number => {
+  const value = fields[key]
+  if (!isWholeNumber(value)) throw new ScoreValidationError(`${key} must be a whole number`)
+  return value
+}
+
+// Best case: every hit scored at the top multiplier and no wall was touched
+export const maxScoreForHits = (hits: number) => hits * TARGET_POINTS * MAX_COMBO_MULTIPLIER
+
+function parsePlayer(value: unknown): Player {
+  const player = value as Record<string, unknown> | null
+  if (typeof player !== 'object' || player === null) throw new ScoreValidationError('player is required')
+
+  if (player.type === 'farcaster') {
+    if (!isWholeNumber(player.fid) || player.fid === 0) throw new ScoreValidationError('fid must be a positive integer')
+    const username = typeof player.username === 'string' && USERNAME_PATTERN.test(player.username) ? player.username : null
+    return { type: 'farcaster', fid: player.fid, username }
+  }
+  if (player.type === 'guest') {
+    if (typeof player.guestId !== 'string' || !GUEST_ID_PATTERN.test(player.guestId)) {
+      throw new ScoreValidationError('guestId must be a UUID')
+    }
+    return { type: 'guest', guestId: player.guestId }
+  }
+  throw new ScoreValidationError('player.type must be "farcaster" or "guest"')
+}
+
+// Reject anything a real round couldn't have produced
+function parseResult(value: unknown): ChallengeResult {
+  const result = value as Record<string, unknown> | null
+  if (typeof result !== 'object' || result === null) throw new ScoreValidationError('result is required')
+  if (result.mode !== 'challenge') throw new ScoreValidationError('mode must be "challenge"')
+
+  const score = readCount(result, 'score')
+  const hits = readCount(result, 'hits')
+  const wallHits = readCount(result, 'wallHits')
+  const bestCombo = readCount(result, 'bestCombo')
+  const durationMs = readCount(result, 'durationMs')
+
+  if (Math.abs(durationMs - CHALLENGE_DURATION_MS) > DURATION_TOLERANCE_MS) {
+    throw new ScoreValidationError('durationMs does not match the round length')
+  }
+  if (hits > (CHALLENGE_DURATION_MS / 1000) * MAX_HITS_PER_SECOND) {
+    throw new ScoreValidationError('too many hits for the round length')
+  }
+  if (bestCombo > hits) {
+    throw new ScoreValidationError('bestCombo cannot exceed hits')
+  }
+  // Points come in TARGET_POINTS steps and penalties in WALL_PENALTY steps
+  if (score > maxScoreForHits(hits) || score % WALL_PENALTY !== 0) {
+    throw new ScoreValidationError('score is not reachable with that many hits')
+  }
+
+  return {
+    mode: 'challenge',
+    score,
+    hits,
+    wallHits,
+    bestCombo,
+    durationMs,
+    completedAt: isWholeNumber(result.completedAt) ? result.completedAt : Date.now()
+  }
+}
+
+export function parseScoreSubmission(data: unknown): ScoreSubmission {
+  if (typeof data !== 'object' || data === null) throw new ScoreValidationError('submission must be an object')
+  const submission = data as Record<string, unknown>
+  return { player: parsePlayer(submission.player), result: parseResult(submission.result) }
+}
+
+// Start of the current UTC day, which is when the daily board resets
+export function periodStart(period: LeaderboardPeriod, now: number = Date.now()): number {
+  if (period === 'all') return 0
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+// Each player's best score only, highest first; ties go to whoever got there first
+export function rankEntries(entries: ScoreEntry[]): RankedEntry[] {
+  const best = new Map<string, ScoreEntry>()
+  for (const entry of entries) {
+    const current = best.get(entry.playerKey)
+    if (!current || entry.score > current.score || (entry.score === current.score && entry.submittedAt < current.submittedAt)) {
+      best.set(entry.playerKey, entry)
+    }
+  }
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }))
+}
+
+export function loadGuestId(): string {
+  try {
+    const stored = window.localStorage.getItem(GUEST_STORAGE_KEY)
+    if (stored && GUEST_ID_PATTERN.test(stored)) return stored
+    const guestId = crypto.randomUUID()
+    window.localStorage.setItem(GUEST_STORAGE_KEY, guestId)
+    return guestId
+  } catch (error) {
+    // Without storage the guest gets a new identity each visit
+    console.log('Guest id could not be stored:', error)
+    return crypto.randomUUID()
+  }
+}
+
+export async function submitScore(submission: ScoreSubmission): Promise<RankedEntry | null> {
+  const response = await fetch('/api/scores', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission)
+  })
+  if (!response.ok) {
+    throw new Error(`Score submission failed: ${response.status}`)
+  }
+  const { player } = await response.json()
+  return player ?? null
+}
+
+export async function fetchLeaderboard(
+  mode: LeaderboardMode,
+  period: LeaderboardPeriod,
+  player: Player | null
+): Promise<LeaderboardResponse> {
+  const query = new URLSearchParams({ mode, period })
+  if (player) query.set('player', playerKey(player))
+  const response = await fetch(`/api/scores?${query}`)
+  if (!response.ok) {
+    throw new Error(`Leaderboard failed to load: ${response.status}`)
+  }
+  return response.json()
+}
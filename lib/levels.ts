@@ -0,0 +1,314 @@
+// Versioned JSON level format.
+// Positions and sizes are fractions of the arena so a level fits any screen:
+// x/width are relative to the arena width, y/height to its height, and radii
+// to the shorter side. The arena itself may be any convex outline.
+
+import { ArenaBounds, ArenaLayout, ArenaWall, Obstacle } from './physics'
+
+export const LEVEL_SCHEMA_VERSION = 1
+
+export interface LevelPoint {
+  x: number
+  y: number
+}
+
+export type LevelObstacle =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | { type: 'segment'; x1: number; y1: number; x2: number; y2: number }
+
+export interface LevelHole {
+  x: number
+  y: number
+  radius: number
+}
+
+export interface LevelGoal {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type LevelArena =
+  | { type: 'rect' }
+  | { type: 'roundedRect'; radius: number } // Corner radius, up to half the shorter side
+  | { type: 'circle' } // The largest circle that fits, centred
+  | { type: 'polygon'; points: LevelPoint[] } // Convex, listed in either direction
+
+export interface LevelDefinition {
+  version: typeof LEVEL_SCHEMA_VERSION
+  id: string
+  name: string
+  arena?: LevelArena // A plain rectangle when omitted
+  spawn?: LevelPoint
+  obstacles: LevelObstacle[]
+  holes: LevelHole[]
+  goals: LevelGoal[]
+}
+
+export interface LevelSummary {
+  id: string
+  name: string
+}
+
+// Shipped under public/levels/<id>.json
+export const BUNDLED_LEVELS: LevelSummary[] = [
+  { id: 'pegboard', name: 'Pegboard' },
+  { id: 'zigzag', name: 'Zigzag' },
+  { id: 'minefield', name: 'Minefield' }
+]
+
+export class LevelValidationError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`)
+    this.name = 'LevelValidationError'
+  }
+}
+
+type Fields = Record<string, unknown>
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readObject = (value: unknown, path: string): Fields => {
+  if (!isObject(value)) throw new LevelValidationError(path, 'expected an object')
+  return value
+}
+
+const readString = (fields: Fields, key: string, path: string): string => {
+  const value = fields[key]
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new LevelValidationError(`${path}.${key}`, 'expected a non-empty string')
+  }
+  return value
+}
+
+// Fractions may reach slightly past the arena so walls can hug the edges
+const readFraction = (fields: Fields, key: string, path: string, min = -1, max = 2): number => {
+  const value = fields[key]
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new LevelValidationError(`${path}.${key}`, `expected a number between ${min} and ${max}`)
+  }
+  return value
+}
+
+const readArray = (fields: Fields, key: string, path: string): unknown[] => {
+  const value = fields[key]
+  if (value === undefined) return []
+  if (!Array.isArray(value)) throw new LevelValidationError(`${path}.${key}`, 'expected an array')
+  return value
+}
+
+const parseObstacle = (value: unknown, path: string): LevelObstacle => {
+  const fields = readObject(value, path)
+  switch (fields.type) {
+    case 'rect':
+      return {
+        type: 'rect',
+        x: readFraction(fields, 'x', path),
+        y: readFraction(fields, 'y', path),
+        width: readFraction(fields, 'width', path, 0),
+        height: readFraction(fields, 'height', path, 0)
+      }
+    case 'circle':
+      return {
+        type: 'circle',
+        x: readFraction(fields, 'x', path),
+        y: readFraction(fields, 'y', path),
+        radius: readFraction(fields, 'radius', path, 0, 1)
+      }
+    case 'segment':
+      return {
+        type: 'segment',
+        x1: readFraction(fields, 'x1', path),
+        y1: readFraction(fields, 'y1', path),
+        x2: readFraction(fields, 'x2', path),
+        y2: readFraction(fields, 'y2', path)
+      }
+    default:
+      throw new LevelValidationError(`${path}.type`, 'expected "rect", "circle" or "segment"')
+  }
+}
+
+// Twice the signed area; positive when the points run clockwise on screen
+const windingArea = (points: LevelPoint[]) =>
+  points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length]
+    return sum + point.x * next.y - next.x * point.y
+  }, 0)
+
+// Convex means every corner turns the same way
+const isConvex = (points: LevelPoint[]) => {
+  const direction = Math.sign(windingArea(points))
+  return direction !== 0 && points.every((point, i) => {
+    const next = points[(i + 1) % points.length]
+    const after = points[(i + 2) % points.length]
+    const turn = (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x)
+    return Math.sign(turn) !== -direction
+  })
+}
+
+export const parseLevelArena = (value: unknown, path: string): LevelArena => {
+  const fields = readObject(value, path)
+  switch (fields.type) {
+    case 'rect':
+    case 'circle':
+      return { type: fields.type }
+    case 'roundedRect':
+      return { type: 'roundedRect', radius: readFraction(fields, 'radius', path, 0, 0.5) }
+    case 'polygon': {
+      const points = readArray(fields, 'points', path).map((point, i) => {
+        const pointFields = readObject(point, `${path}.points[${i}]`)
+        return {
+          x: readFraction(pointFields, 'x', `${path}.points[${i}]`, 0, 1),
+          y: readFraction(pointFields, 'y', `${path}.points[${i}]`, 0, 1)
+        }
+      })
+      if (points.length < 3) throw new LevelValidationError(`${path}.points`, 'expected at least 3 points')
+      if (!isConvex(points)) throw new LevelValidationError(`${path}.points`, 'expected a convex polygon')
+      return { type: 'polygon', points }
+    }
+    default:
+      throw new LevelValidationError(`${path}.type`, 'expected "rect", "roundedRect", "circle" or "polygon"')
+  }
+}
+
+// Validate untrusted JSON and return a typed level, or throw LevelValidationError
+export function parseLevel(data: unknown): LevelDefinition {
+  const fields = readObject(data, 'level')
+
+  if (fields.version !== LEVEL_SCHEMA_VERSION) {
+    throw new LevelValidationError('level.version', `unsupported version, expected ${LEVEL_SCHEMA_VERSION}`)
+  }
+
+  let spawn: LevelPoint | undefined
+  if (fields.spawn !== undefined) {
+    const spawnFields = readObject(fields.spawn, 'level.spawn')
+    spawn = {
+      x: readFraction(spawnFields, 'x', 'level.spawn', 0, 1),
+      y: readFraction(spawnFields, 'y', 'level.spawn', 0, 1)
+    }
+  }
+
+  return {
+    version: LEVEL_SCHEMA_VERSION,
+    id: readString(fields, 'id', 'level'),
+    name: readString(fields, 'name', 'level'),
+    arena: fields.arena === undefined ? undefined : parseLevelArena(fields.arena, 'level.arena'),
+    spawn,
+    obstacles: readArray(fields, 'obstacles', 'level').map((obstacle, i) =>
+      parseObstacle(obstacle, `level.obstacles[${i}]`)
+    ),
+    holes: readArray(fields, 'holes', 'level').map((hole, i) => {
+      const path = `level.holes[${i}]`
+      const holeFields = readObject(hole, path)
+      return {
+        x: readFraction(holeFields, 'x', path, 0, 1),
+        y: readFraction(holeFields, 'y', path, 0, 1),
+        radius: readFraction(holeFields, 'radius', path, 0, 1)
+      }
+    }),
+    goals: readArray(fields, 'goals', 'level').map((goal, i) => {
+      const path = `level.goals[${i}]`
+      const goalFields = readObject(goal, path)
+      return {
+        x: readFraction(goalFields, 'x', path, 0, 1),
+        y: readFraction(goalFields, 'y', path, 0, 1),
+        width: readFraction(goalFields, 'width', path, 0, 1),
+        height: readFraction(goalFields, 'height', path, 0, 1)
+      }
+    })
+  }
+}
+
+const line = (x1: number, y1: number, x2: number, y2: number): ArenaWall => {
+  // Walls run clockwise on screen, so the inside is on the right of the direction of travel
+  const length = Math.hypot(x2 - x1, y2 - y1) || 1
+  return { type: 'line', x1, y1, x2, y2, nx: -(y2 - y1) / length, ny: (x2 - x1) / length }
+}
+
+// Scale an arena outline to pixels; the plain rectangle needs no walls of its own
+export function resolveArena(arena: LevelArena, bounds: ArenaBounds): ArenaWall[] | null {
+  const { width, height } = bounds
+  const unit = Math.min(width, height)
+
+  switch (arena.type) {
+    case 'rect':
+      return null
+    case 'circle':
+      return [{ type: 'arc', x: width / 2, y: height / 2, radius: unit / 2, start: 0, sweep: Math.PI * 2 }]
+    case 'roundedRect': {
+      const r = arena.radius * unit
+      const corner = (x: number, y: number, start: number): ArenaWall => ({ type: 'arc', x, y, radius: r, start, sweep: Math.PI / 2 })
+      return [
+        line(r, 0, width - r, 0),
+        corner(width - r, r, -Math.PI / 2),
+        line(width, r, width, height - r),
+        corner(width - r, height - r, 0),
+        line(width - r, height, r, height),
+        corner(r, height - r, Math.PI / 2),
+        line(0, height - r, 0, r),
+        corner(r, r, Math.PI)
+      ]
+    }
+    case 'polygon': {
+      const points = windingArea(arena.points) > 0 ? arena.points : [...arena.points].reverse()
+      return points.map((point, i) => {
+        const next = points[(i + 1) % points.length]
+        return line(point.x * width, point.y * height, next.x * width, next.y * height)
+      })
+    }
+  }
+}
+
+// Scale a level's fractional geometry to the current arena size
+export function resolveLevel(level: LevelDefinition, bounds: ArenaBounds): ArenaLayout {
+  const { width, height } = bounds
+  const unit = Math.min(width, height)
+
+  const obstacles = level.obstacles.map((obstacle): Obstacle => {
+    switch (obstacle.type) {
+      case 'rect':
+        return {
+          type: 'rect',
+          x: obstacle.x * width,
+          y: obstacle.y * height,
+          width: obstacle.width * width,
+          height: obstacle.height * height
+        }
+      case 'circle':
+        return { type: 'circle', x: obstacle.x * width, y: obstacle.y * height, radius: obstacle.radius * unit }
+      case 'segment':
+        return {
+          type: 'segment',
+          x1: obstacle.x1 * width,
+          y1: obstacle.y1 * height,
+          x2: obstacle.x2 * width,
+          y2: obstacle.y2 * height
+        }
+    }
+  })
+
+  return {
+    walls: level.arena ? resolveArena(level.arena, bounds) : null,
+    obstacles,
+    surfaces: [],
+    holes: level.holes.map(hole => ({ x: hole.x * width, y: hole.y * height, radius: hole.radius * unit })),
+    goals: level.goals.map(goal => ({
+      x: goal.x * width,
+      y: goal.y * height,
+      width: goal.width * width,
+      height: goal.height * height
+    })),
+    spawn: level.spawn ? { x: level.spawn.x * width, y: level.spawn.y * height } : null
+  }
+}
+
+export async function loadLevel(id: string): Promise<LevelDefinition> {
+  const response = await fetch(`/levels/${encodeURIComponent(id)}.json`)
+  if (!response.ok) {
+    throw new Error(`Failed to load level "${id}": ${response.status}`)
+  }
+  return parseLevel(await response.json())
+}
@@ -0,0 +1,131 @@
+// Farcaster mini app identity: one config, read from the environment, feeds
+// both the /.well-known/farcaster.json manifest and the fc:frame embed tag.
+// Moving to a new domain only needs APP_URL (and a fresh account association).
+
+export interface AccountAssociation {
+  header: string
+  payload: string
+  signature: string
+}
+
+export interface MiniAppConfig {
+  url: string // Origin the app is served from, without a trailing slash
+  name: string
+  iconUrl: string
+  imageUrl: string // 3:2 preview shown in the feed
+  buttonTitle: string
+  splashImageUrl: string
+  splashBackgroundColor: string
+  webhookUrl: string
+  accountAssociation: AccountAssociation | null
+}
+
+export interface MiniAppManifest {
+  accountAssociation?: AccountAssociation
+  frame: {
+    version: '1'
+    name: string
+    iconUrl: string
+    homeUrl: string
+    imageUrl: string
+    buttonTitle: string
+    splashImageUrl: string
+    splashBackgroundColor: string
+    webhookUrl?: string
+  }
+}
+
+export interface FrameEmbed {
+  version: 'next'
+  imageUrl: string
+  button: {
+    title: string
+    action: {
+      type: 'launch_frame'
+      name: string
+      url: string
+      splashImageUrl: string
+      splashBackgroundColor: string
+    }
+  }
+}
+
+const DEV_URL = 'http://localhost:3000'
+
+// Vercel exposes the deployment host without a scheme
+function appUrl(env: Record<string, string | undefined>): string {
+  const url = env.APP_URL || (env.VERCEL_PROJECT_PRODUCTION_URL && `https://${env.VERCEL_PROJECT_PRODUCTION_URL}`) || DEV_URL
+  return url.replace(/\/+$/, '')
+}
+
+export function getMiniAppConfig(env: Record<string, string | undefined> = process.env): MiniAppConfig {
+  const url = appUrl(env)
+  const { FARCASTER_HEADER, FARCASTER_PAYLOAD, FARCASTER_SIGNATURE } = env
+
+  return {
+    url,
+    name: env.APP_NAME || 'FidgetBall',
+    iconUrl: env.APP_ICON_URL || `${url}/icon.png`,
+    imageUrl: env.APP_IMAGE_URL || `${url}/embed.png`,
+    buttonTitle: env.APP_BUTTON_TITLE || 'Play FidgetBall',
+    splashImageUrl: env.APP_SPLASH_IMAGE_URL || `${url}/splash.png`,
+    splashBackgroundColor: env.APP_SPLASH_BACKGROUND_COLOR || '#2a2a2a',
+    webhookUrl: env.APP_WEBHOOK_URL || `${url}/api/webhook`,
+    // Signed for one domain by the owner's Farcaster account; without it the manifest is unverified
+    accountAssociation: FARCASTER_HEADER && FARCASTER_PAYLOAD && FARCASTER_SIGNATURE
+      ? { header: FARCASTER_HEADER, payload: FARCASTER_PAYLOAD, signature: FARCASTER_SIGNATURE }
+      : null
+  }
+}
+
+export function buildManifest(config: MiniAppConfig): MiniAppManifest {
+  return {
+    ...(config.accountAssociation ? { accountAssociation: config.accountAssociation } : {}),
+    frame: {
+      version: '1',
+      name: config.name,
+      iconUrl: config.iconUrl,
+      homeUrl: config.url,
+      imageUrl: config.imageUrl,
+      buttonTitle: config.buttonTitle,
+      splashImageUrl: config.splashImageUrl,
+      splashBackgroundColor: config.splashBackgroundColor,
+      webhookUrl: config.webhookUrl
+    }
+  }
+}
+
+// What a shared link shows in its preview image
+export interface ShareImageParams {
+  color?: string // #rrggbb
+  level?: string
+  score?: number
+}
+
+export function shareImageUrl(config: MiniAppConfig, params: ShareImageParams): string {
+  const query = new URLSearchParams()
+  if (params.color) query.set('color', params.color.replace('#', ''))
+  if (params.level) query.set('level', params.level)
+  if (params.score !== undefined) query.set('score', String(params.score))
+  const search = query.toString()
+  return `${config.url}/api/og${search ? `?${search}` : ''}`
+}
+
+// Overrides let a cast open a specific page, such as a shared settings link, with its own preview
+export function buildFrameEmbed(config: MiniAppConfig, overrides: { url?: string; imageUrl?: string } = {}): FrameEmbed {
+  const url = overrides.url ?? config.url
+  return {
+    version: 'next',
+    imageUrl: overrides.imageUrl ?? config.imageUrl,
+    button: {
+      title: config.buttonTitle,
+      action: {
+        type: 'launch_frame',
+        name: config.name,
+        url,
+        splashImageUrl: config.splashImageUrl,
+        splashBackgroundColor: config.splashBackgroundColor
+      }
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// Sensor conditioning for tilt input: screen-orientation remapping, low-pass
+// smoothing and a calibrated neutral offset. Vectors are in units of g.
+
+import { Vector } from './physics'
+
+export interface TiltSettings {
+  smoothingMs: number // Low-pass time constant; 0 passes raw readings through
+  offset: Vector      // Neutral tilt captured during calibration, in screen space
+}
+
+export const DEFAULT_TILT_SETTINGS: TiltSettings = {
+  smoothingMs: 60,
+  offset: { x: 0, y: 0 }
+}
+
+export const MAX_SMOOTHING_MS = 300
+
+// Current screen rotation in degrees (0, 90, 180 or 270), counter-clockwise from the natural orientation
+export function screenAngle(): number {
+  if (typeof window === 'undefined') return 0
+  // Safari before 16.4 only has the deprecated window.orientation
+  const legacy = 'orientation' in window ? Number((window as Window & { orientation?: number }).orientation) || 0 : 0
+  const angle = window.screen?.orientation?.angle ?? legacy
+  return ((Math.round(angle / 90) * 90) % 360 + 360) % 360
+}
+
+// Convert a device-frame vector (x right, y towards the top edge) into screen space (x right, y down)
+export function deviceToScreen(device: Vector, angle: number): Vector {
+  switch (angle) {
+    case 90:
+      return { x: -device.y, y: -device.x }
+    case 180:
+      return { x: -device.x, y: device.y }
+    case 270:
+      return { x: device.y, y: device.x }
+    default:
+      return { x: device.x, y: -device.y }
+  }
+}
+
+// Exponential low-pass filter whose strength is independent of the sensor's event rate
+export function createLowPassFilter(smoothingMs: number) {
+  let value: Vector | null = null
+  let lastTime: number | null = null
+
+  return {
+    setSmoothing(ms: number) {
+      smoothingMs = ms
+    },
+    push(sample: Vector, time: number): Vector {
+      if (value === null || lastTime === null || smoothingMs <= 0) {
+        value = sample
+      } else {
+        const alpha = 1 - Math.exp(-Math.max(0, time - lastTime) / smoothingMs)
+        value = {
+          x: value.x + (sample.x - value.x) * alpha,
+          y: value.y + (sample.y - value.y) * alpha
+        }
+      }
+      lastTime = time
+      return value
+    },
+    reset() {
+      value = null
+      lastTime = null
+    }
+  }
+}
+
+export function averageVectors(samples: Vector[]): Vector {
+  if (samples.length === 0) return { x: 0, y: 0 }
+  const sum = samples.reduce((total, sample) => ({ x: total.x + sample.x, y: total.y + sample.y }), { x: 0, y: 0 })
+  return { x: sum.x / samples.length, y: sum.y / samples.length }
+}
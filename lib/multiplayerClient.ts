@@ -0,0 +1,268 @@
+// Browser side of the multiplayer arena. The player's own ball is predicted
+// locally from their tilt and reconciled against each snapshot by replaying
+// the inputs the server hasn't applied yet; everyone else's ball is drawn a
+// little in the past, interpolated between the two snapshots around it.
+// Ball-ball collisions are only resolved by the server, so bumps show up
+// one round trip late and any jump is smoothed out over a few frames.
+
+import {
+  accelerationForTilt,
+  Ball,
+  CollisionEvent,
+  CollisionZones,
+  createZones,
+  DEFAULT_PHYSICS_PARAMS,
+  FIXED_TIMESTEP_MS,
+  massForRadius,
+  MAX_STEPS_PER_ADVANCE,
+  PhysicsState,
+  stepPhysics,
+  Vector
+} from './physics'
+import {
+  encodeMessage,
+  MULTIPLAYER_ARENA,
+  MULTIPLAYER_BALL_RADIUS,
+  MULTIPLAYER_PATH,
+  NetBall,
+  NetBallHit,
+  parseServerMessage,
+  PlayerInfo,
+  PlayerInput
+} from './multiplayerProtocol'
+import { quantizeTilt } from './replay'
+
+export type MultiplayerStatus = 'connecting' | 'connected' | 'closed'
+
+export interface MultiplayerOptions {
+  url: string
+  room: string
+  name: string
+  color: string
+  // Called when the status, player list or error changes
+  onChange?: () => void
+}
+
+export interface MultiplayerFrame {
+  state: PhysicsState // The player's own ball first; empty until the server has placed it
+  events: CollisionEvent[]
+}
+
+// Two snapshots at 20 Hz, so there's usually one on either side of the render time
+const INTERPOLATION_DELAY_MS = 100
+const MAX_BUFFERED_SNAPSHOTS = 20
+// Unacknowledged inputs kept for replay; the server is gone if it falls this far behind
+const MAX_PENDING_INPUTS = 120
+// Share of a prediction error left after each step, and the error that is snapped instead
+const CORRECTION_DECAY = 0.85
+const SNAP_DISTANCE = 60
+
+interface BufferedSnapshot {
+  receivedAt: number
+  balls: NetBall[]
+}
+
+// NEXT_PUBLIC_MULTIPLAYER_URL points at a separate server; by default it's the page's own host
+export function multiplayerUrl(location: Location): string {
+  const configured = process.env.NEXT_PUBLIC_MULTIPLAYER_URL
+  if (configured) return configured
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${MULTIPLAYER_PATH}`
+}
+
+const toBall = (ball: NetBall, color: string): Ball => ({
+  x: ball.x,
+  y: ball.y,
+  vx: ball.vx,
+  vy: ball.vy,
+  spin: ball.spin,
+  radius: MULTIPLAYER_BALL_RADIUS,
+  color,
+  mass: massForRadius(MULTIPLAYER_BALL_RADIUS)
+})
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t
+
+// The local ball alone, against the walls only
+function predictStep(ball: Ball, zones: CollisionZones, tilt: Vector, events: CollisionEvent[]) {
+  const result = stepPhysics(
+    { balls: [ball], zones: [zones], goals: [null] },
+    accelerationForTilt(tilt),
+    MULTIPLAYER_ARENA,
+    DEFAULT_PHYSICS_PARAMS
+  )
+  events.push(...result.events)
+  return { ball: result.state.balls[0], zones: result.state.zones[0] }
+}
+
+export function createMultiplayerClient(options: MultiplayerOptions) {
+  const socket = new WebSocket(options.url)
+  let status: MultiplayerStatus = 'connecting'
+  let error: string | null = null
+  let playerId: string | null = null
+  let players: PlayerInfo[] = []
+
+  let seq = 0
+  let pending: PlayerInput[] = []
+  let own: Ball | null = null
+  let ownZones = createZones()
+  let correction: Vector = { x: 0, y: 0 }
+  let accumulator = 0
+  const snapshots: BufferedSnapshot[] = []
+  let hits: NetBallHit[] = []
+
+  const changed = () => options.onChange?.()
+  const colorFor = (id: string) => players.find(player => player.id === id)?.color ?? '#ffffff'
+
+  // Rewind the own ball to the server's state and replay what it hasn't seen yet
+  const reconcile = (mine: NetBall, ack: number) => {
+    pending = pending.filter(input => input.seq > ack)
+    let ball = toBall(mine, options.color)
+    let zones = ownZones
+    const ignored: CollisionEvent[] = []
+    for (const input of pending) {
+      ;({ ball, zones } = predictStep(ball, zones, input.tilt, ignored))
+    }
+
+    if (own) {
+      const offset = { x: own.x + correction.x - ball.x, y: own.y + correction.y - ball.y }
+      correction = Math.hypot(offset.x, offset.y) > SNAP_DISTANCE ? { x: 0, y: 0 } : offset
+    }
+    own = ball
+    ownZones = zones
+  }
+
+  // Remote balls where they were INTERPOLATION_DELAY_MS ago
+  const remoteBalls = (renderTime: number): Array<{ id: string; ball: Ball }> => {
+    if (snapshots.length === 0) return []
+    let to = snapshots.findIndex(snapshot => snapshot.receivedAt >= renderTime)
+    if (to === -1) to = snapshots.length - 1
+    const from = snapshots[Math.max(0, to - 1)]
+    const target = snapshots[to]
+    const span = target.receivedAt - from.receivedAt
+    const t = span > 0 ? Math.max(0, Math.min(1, (renderTime - from.receivedAt) / span)) : 1
+
+    return target.balls
+      .filter(ball => ball.id !== playerId)
+      .map(ball => {
+        const previous = from.balls.find(candidate => candidate.id === ball.id) ?? ball
+        return {
+          id: ball.id,
+          ball: toBall({ ...ball, x: lerp(previous.x, ball.x, t), y: lerp(previous.y, ball.y, t) }, colorFor(ball.id))
+        }
+      })
+  }
+
+  socket.addEventListener('open', () => {
+    socket.send(encodeMessage({ type: 'join', room: options.room, name: options.name, color: options.color }))
+  })
+
+  socket.addEventListener('message', event => {
+    let message
+    try {
+      message = parseServerMessage(String(event.data))
+    } catch (parseError) {
+      console.log('Multiplayer message ignored:', parseError)
+      return
+    }
+
+    switch (message.type) {
+      case 'welcome':
+        playerId = message.playerId
+        players = message.players
+        status = 'connected'
+        changed()
+        break
+      case 'players':
+        players = message.players
+        changed()
+        break
+      case 'snapshot': {
+        snapshots.push({ receivedAt: performance.now(), balls: message.balls })
+        if (snapshots.length > MAX_BUFFERED_SNAPSHOTS) snapshots.shift()
+        const mine = message.balls.find(ball => ball.id === playerId)
+        if (mine) reconcile(mine, message.ack)
+        hits.push(...message.hits.filter(hit => hit.a === playerId || hit.b === playerId))
+        break
+      }
+      case 'error':
+        error = message.message
+        changed()
+        break
+    }
+  })
+
+  socket.addEventListener('close', () => {
+    if (!error) {
+      error = status === 'connecting' ? 'Could not reach the multiplayer server' : 'Disconnected from the room'
+    }
+    status = 'closed'
+    changed()
+  })
+
+  return {
+    room: options.room,
+    arena: MULTIPLAYER_ARENA,
+    get status() {
+      return status
+    },
+    get error() {
+      return error
+    },
+    get players() {
+      return players
+    },
+    // Run the local prediction for this frame and send the inputs it used
+    advance(elapsedMs: number, tilt: Vector): MultiplayerFrame {
+      const events: CollisionEvent[] = []
+      const inputs: PlayerInput[] = []
+
+      if (status === 'connected' && own) {
+        const quantized = quantizeTilt(tilt)
+        accumulator += Math.max(0, elapsedMs)
+        while (accumulator >= FIXED_TIMESTEP_MS && inputs.length < MAX_STEPS_PER_ADVANCE) {
+          const input = { seq: ++seq, tilt: quantized }
+          inputs.push(input)
+          ;({ ball: own, zones: ownZones } = predictStep(own, ownZones, quantized, events))
+          correction = { x: correction.x * CORRECTION_DECAY, y: correction.y * CORRECTION_DECAY }
+          accumulator -= FIXED_TIMESTEP_MS
+        }
+        if (inputs.length === MAX_STEPS_PER_ADVANCE) {
+          accumulator = Math.min(accumulator, FIXED_TIMESTEP_MS)
+        }
+        if (inputs.length > 0 && socket.readyState === WebSocket.OPEN) {
+          socket.send(encodeMessage({ type: 'input', inputs }))
+          pending.push(...inputs)
+          if (pending.length > MAX_PENDING_INPUTS) pending.splice(0, pending.length - MAX_PENDING_INPUTS)
+        }
+      }
+
+      // Nothing is drawn until the server has placed our ball, so it's always first
+      const remotes = own ? remoteBalls(performance.now() - INTERPOLATION_DELAY_MS) : []
+      const remoteBallList = remotes.map(remote => remote.ball)
+      const balls = own ? [{ ...own, x: own.x + correction.x, y: own.y + correction.y }, ...remoteBallList] : []
+
+      // Server-reported bumps, as events against this frame's ball order
+      if (own) {
+        for (const hit of hits) {
+          const otherId = hit.a === playerId ? hit.b : hit.a
+          const other = remotes.findIndex(remote => remote.id === otherId)
+          if (other !== -1) events.push({ type: 'ballHit', ball: 0, other: other + 1, speed: hit.speed })
+        }
+      }
+      hits = []
+
+      // Only our own ball's wall zones are predicted; remote balls are just drawn
+      const zones = balls.map((_, index) => (index === 0 ? ownZones : createZones()))
+      return {
+        state: { balls, zones, goals: balls.map(() => null) },
+        events
+      }
+    },
+    close() {
+      error = error ?? 'Left the room'
+      socket.close()
+    }
+  }
+}
+
+export type MultiplayerClient = ReturnType<typeof createMultiplayerClient>
@@ -0,0 +1,140 @@
+// Message protocol for the multiplayer arena, shared by the WebSocket server
+// and the browser client. Messages are JSON text frames. Every player sends
+// their tilt once per fixed physics step; the server steps one shared arena
+// and broadcasts a snapshot every few steps, acknowledging the last input
+// it applied so the client can replay the ones still in flight.
+
+import { ArenaBounds, Vector } from './physics'
+import { quantizeTilt } from './replay'
+
+export const MULTIPLAYER_PATH = '/multiplayer'
+
+// Every room plays in the same arena; clients scale it to fit their screen
+export const MULTIPLAYER_ARENA: ArenaBounds = { width: 360, height: 640 }
+export const MULTIPLAYER_BALL_RADIUS = 16
+export const MAX_PLAYERS_PER_ROOM = 8
+// Physics runs at 60 Hz; snapshots go out at 20 Hz
+export const STEPS_PER_SNAPSHOT = 3
+export const MAX_MESSAGE_BYTES = 4096
+
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,8}$/
+// No 0/O or 1/I, so codes survive being read aloud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+const MAX_NAME_LENGTH = 24
+const MAX_INPUTS_PER_MESSAGE = 16
+// Sensors report about 1g; anything well past that is a tampered client
+const MAX_TILT = 2
+
+export interface PlayerInfo {
+  id: string
+  name: string
+  color: string
+}
+
+// One fixed step of a player's input. `seq` increases by one per step.
+export interface PlayerInput {
+  seq: number
+  tilt: Vector
+}
+
+export interface NetBall {
+  id: string // Owning player
+  x: number
+  y: number
+  vx: number
+  vy: number
+  spin: number
+}
+
+export interface NetBallHit {
+  a: string
+  b: string
+  speed: number
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; name: string; color: string }
+  | { type: 'input'; inputs: PlayerInput[] }
+
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string; room: string; players: PlayerInfo[] }
+  | { type: 'players'; players: PlayerInfo[] }
+  | { type: 'snapshot'; tick: number; ack: number; balls: NetBall[]; hits: NetBallHit[] }
+  | { type: 'error'; message: string }
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+// Codes are case-insensitive; returns null for anything that isn't one
+export function normalizeRoomCode(value: string): string | null {
+  const code = value.trim().toUpperCase()
+  return ROOM_CODE_PATTERN.test(code) ? code : null
+}
+
+export function createRoomCode(random: () => number = Math.random): string {
+  let code = ''
+  for (let i = 0; i < 4; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function parseInput(value: unknown): PlayerInput {
+  const input = value as Record<string, unknown> | null
+  const tilt = input?.tilt as Record<string, unknown> | undefined
+  if (!input || !Number.isInteger(input.seq) || (input.seq as number) < 0) {
+    throw new ProtocolError('input.seq must be a non-negative integer')
+  }
+  if (!tilt || !isFiniteNumber(tilt.x) || !isFiniteNumber(tilt.y)) {
+    throw new ProtocolError('input.tilt must have numeric x and y')
+  }
+  const clampTilt = (n: number) => Math.max(-MAX_TILT, Math.min(MAX_TILT, n))
+  return { seq: input.seq as number, tilt: quantizeTilt({ x: clampTilt(tilt.x), y: clampTilt(tilt.y) }) }
+}
+
+// Server side: everything from a client is untrusted
+export function parseClientMessage(data: string): ClientMessage {
+  let message: Record<string, unknown>
+  try {
+    message = JSON.parse(data)
+  } catch {
+    throw new ProtocolError('message must be JSON')
+  }
+  if (typeof message !== 'object' || message === null) throw new ProtocolError('message must be an object')
+
+  if (message.type === 'join') {
+    const room = typeof message.room === 'string' ? normalizeRoomCode(message.room) : null
+    if (!room) throw new ProtocolError('room must be 4-8 letters or digits')
+    const name = typeof message.name === 'string' ? message.name.trim().slice(0, MAX_NAME_LENGTH) : ''
+    if (!name) throw new ProtocolError('name is required')
+    if (typeof message.color !== 'string' || !COLOR_PATTERN.test(message.color)) {
+      throw new ProtocolError('color must be #rrggbb')
+    }
+    return { type: 'join', room, name, color: message.color }
+  }
+  if (message.type === 'input') {
+    if (!Array.isArray(message.inputs) || message.inputs.length > MAX_INPUTS_PER_MESSAGE) {
+      throw new ProtocolError(`inputs must be an array of at most ${MAX_INPUTS_PER_MESSAGE}`)
+    }
+    return { type: 'input', inputs: message.inputs.map(parseInput) }
+  }
+  throw new ProtocolError(`unknown message type: ${String(message.type)}`)
+}
+
+// Client side: the server is trusted, so only the envelope is checked
+export function parseServerMessage(data: string): ServerMessage {
+  const message = JSON.parse(data)
+  if (typeof message !== 'object' || message === null || typeof message.type !== 'string') {
+    throw new ProtocolError('message must be an object with a type')
+  }
+  return message as ServerMessage
+}
+
+export const encodeMessage = (message: ClientMessage | ServerMessage) => JSON.stringify(message)
@@ -0,0 +1,145 @@
+// One multiplayer room: the authoritative arena every player in it shares.
+// Pure and clock-free like the rest of the physics; the server decides when
+// to step it and how to deliver the snapshots.
+
+import {
+  accelerationForTilt,
+  addBall,
+  createSimulation,
+  DEFAULT_PHYSICS_PARAMS,
+  massForRadius,
+  PhysicsState,
+  stepPhysics,
+  Vector
+} from './physics'
+import {
+  MAX_PLAYERS_PER_ROOM,
+  MULTIPLAYER_ARENA,
+  MULTIPLAYER_BALL_RADIUS,
+  NetBallHit,
+  PlayerInfo,
+  PlayerInput,
+  ServerMessage,
+  STEPS_PER_SNAPSHOT
+} from './multiplayerProtocol'
+
+// Half a second of steps; a client running further ahead loses its oldest inputs
+const MAX_QUEUED_INPUTS = 30
+
+interface PlayerSlot {
+  info: PlayerInfo
+  queue: PlayerInput[]
+  tilt: Vector // Held when the queue runs dry, so a late packet doesn't stall the ball
+  ack: number // Last input seq applied
+}
+
+// Two columns of starting spots down the arena
+function spawnPoint(index: number): Vector {
+  const { width, height } = MULTIPLAYER_ARENA
+  return {
+    x: width * (index % 2 === 0 ? 0.3 : 0.7),
+    y: height * (0.2 + 0.2 * Math.floor((index % MAX_PLAYERS_PER_ROOM) / 2))
+  }
+}
+
+export function createRoom(code: string) {
+  // Parallel to state.balls
+  const slots: PlayerSlot[] = []
+  let state: PhysicsState = createSimulation([]).state
+  let tick = 0
+  let hits: NetBallHit[] = []
+
+  const players = () => slots.map(slot => slot.info)
+
+  return {
+    code,
+    get players(): PlayerInfo[] {
+      return players()
+    },
+    get isFull() {
+      return slots.length >= MAX_PLAYERS_PER_ROOM
+    },
+    get isEmpty() {
+      return slots.length === 0
+    },
+    // Returns false when the room is full
+    join(info: PlayerInfo): boolean {
+      if (slots.length >= MAX_PLAYERS_PER_ROOM) return false
+      const spawn = spawnPoint(slots.length)
+      state = addBall(state, {
+        ...spawn,
+        vx: 0,
+        vy: 0,
+        spin: 0,
+        radius: MULTIPLAYER_BALL_RADIUS,
+        color: info.color,
+        mass: massForRadius(MULTIPLAYER_BALL_RADIUS)
+      })
+      slots.push({ info, queue: [], tilt: { x: 0, y: 0 }, ack: 0 })
+      return true
+    },
+    leave(playerId: string) {
+      const index = slots.findIndex(slot => slot.info.id === playerId)
+      if (index === -1) return
+      slots.splice(index, 1)
+      state = {
+        balls: state.balls.filter((_, i) => i !== index),
+        zones: state.zones.filter((_, i) => i !== index),
+        goals: state.goals.filter((_, i) => i !== index)
+      }
+    },
+    // Inputs the server has already applied or queued are ignored, so resends are harmless
+    queueInputs(playerId: string, inputs: PlayerInput[]) {
+      const slot = slots.find(slot => slot.info.id === playerId)
+      if (!slot) return
+      for (const input of inputs) {
+        const newest = slot.queue.length > 0 ? slot.queue[slot.queue.length - 1].seq : slot.ack
+        if (input.seq > newest) slot.queue.push(input)
+      }
+      if (slot.queue.length > MAX_QUEUED_INPUTS) {
+        slot.queue.splice(0, slot.queue.length - MAX_QUEUED_INPUTS)
+      }
+    },
+    // One fixed physics step; every player's ball gets one of their inputs
+    step() {
+      const accelerations = slots.map(slot => {
+        const input = slot.queue.shift()
+        if (input) {
+          slot.tilt = input.tilt
+          slot.ack = input.seq
+        }
+        return accelerationForTilt(slot.tilt)
+      })
+      const result = stepPhysics(state, accelerations, MULTIPLAYER_ARENA, DEFAULT_PHYSICS_PARAMS)
+      state = result.state
+      for (const event of result.events) {
+        if (event.type === 'ballHit') {
+          hits.push({ a: slots[event.ball].info.id, b: slots[event.other].info.id, speed: event.speed })
+        }
+      }
+      tick++
+    },
+    get snapshotDue() {
+      return tick % STEPS_PER_SNAPSHOT === 0
+    },
+    // Each player's snapshot carries their own ack; ball hits are only reported once
+    takeSnapshots(): Array<{ playerId: string; message: ServerMessage }> {
+      const balls = state.balls.map((ball, index) => ({
+        id: slots[index].info.id,
+        x: ball.x,
+        y: ball.y,
+        vx: ball.vx,
+        vy: ball.vy,
+        spin: ball.spin
+      }))
+      const snapshots = slots.map(slot => ({
+        playerId: slot.info.id,
+        message: { type: 'snapshot', tick, ack: slot.ack, balls, hits } as ServerMessage
+      }))
+      hits = []
+      return snapshots
+    }
+  }
+}
+
+export type Room = ReturnType<typeof createRoom>
@@ -0,0 +1,150 @@
+// WebSocket endpoint for the multiplayer arena, attached to the custom Node
+// server in scripts/dev-https.js. Rooms are created when their first player
+// joins and dropped when the last one leaves; all of them step on one timer.
+
+import { randomUUID } from 'crypto'
+import type { IncomingMessage, Server as HttpServer } from 'http'
+import type { Server as HttpsServer } from 'https'
+import type { Duplex } from 'stream'
+import { WebSocket, WebSocketServer } from 'ws'
+import { FIXED_TIMESTEP_MS, MAX_STEPS_PER_ADVANCE } from './physics'
+import {
+  encodeMessage,
+  MAX_MESSAGE_BYTES,
+  MULTIPLAYER_PATH,
+  parseClientMessage,
+  ProtocolError,
+  ServerMessage
+} from './multiplayerProtocol'
+import { createRoom, Room } from './multiplayerRoom'
+
+const MAX_ROOMS = 200
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_MS = 30_000
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(encodeMessage(message))
+}
+
+export function attachMultiplayerServer(server: HttpServer | HttpsServer) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES })
+  const rooms = new Map<string, Room>()
+  const sockets = new Map<string, WebSocket>()
+  const alive = new WeakSet<WebSocket>()
+
+  const broadcastPlayers = (room: Room) => {
+    for (const player of room.players) {
+      const socket = sockets.get(player.id)
+      if (socket) send(socket, { type: 'players', players: room.players })
+    }
+  }
+
+  // Other upgrade requests (Next's hot reload socket) are left to their own listeners
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+    if (pathname !== MULTIPLAYER_PATH) return
+    wss.handleUpgrade(request, socket, head, ws => wss.emit('connection', ws, request))
+  })
+
+  wss.on('connection', (socket: WebSocket) => {
+    const playerId = randomUUID()
+    let room: Room | null = null
+    alive.add(socket)
+    socket.on('pong', () => alive.add(socket))
+
+    const reject = (message: string) => {
+      send(socket, { type: 'error', message })
+      socket.close(1008, message)
+    }
+
+    socket.on('message', (data, isBinary) => {
+      let message
+      try {
+        if (isBinary) throw new ProtocolError('messages must be text')
+        message = parseClientMessage(data.toString())
+      } catch (error) {
+        reject(error instanceof ProtocolError ? error.message : 'invalid message')
+        return
+      }
+
+      if (message.type === 'input') {
+        room?.queueInputs(playerId, message.inputs)
+        return
+      }
+      if (room) {
+        reject('already in a room')
+        return
+      }
+      const target = rooms.get(message.room) ?? (rooms.size < MAX_ROOMS ? createRoom(message.room) : null)
+      if (!target) {
+        reject('too many rooms are open, try again later')
+        return
+      }
+      if (!target.join({ id: playerId, name: message.name, color: message.color })) {
+        reject('room is full')
+        return
+      }
+      rooms.set(target.code, target)
+      sockets.set(playerId, socket)
+      room = target
+      send(socket, { type: 'welcome', playerId, room: target.code, players: target.players })
+      broadcastPlayers(target)
+    })
+
+    socket.on('close', () => {
+      if (!room) return
+      room.leave(playerId)
+      sockets.delete(playerId)
+      if (room.isEmpty) {
+        rooms.delete(room.code)
+      } else {
+        broadcastPlayers(room)
+      }
+    })
+  })
+
+  // Fixed steps against the wall clock, dropping long stalls like advanceSimulation does
+  let lastTime = performance.now()
+  let accumulator = 0
+  const stepTimer = setInterval(() => {
+    const now = performance.now()
+    accumulator = Math.min(accumulator + now - lastTime, FIXED_TIMESTEP_MS * MAX_STEPS_PER_ADVANCE)
+    lastTime = now
+    while (accumulator >= FIXED_TIMESTEP_MS) {
+      accumulator -= FIXED_TIMESTEP_MS
+      rooms.forEach(room => {
+        room.step()
+        if (!room.snapshotDue) return
+        for (const { playerId, message } of room.takeSnapshots()) {
+          const socket = sockets.get(playerId)
+          if (socket) send(socket, message)
+        }
+      })
+    }
+  }, FIXED_TIMESTEP_MS)
+
+  const heartbeatTimer = setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.has(socket)) {
+        socket.terminate()
+        return
+      }
+      alive.delete(socket)
+      socket.ping()
+    })
+  }, HEARTBEAT_MS)
+
+  return {
+    get roomCount() {
+      return rooms.size
+    },
+    close() {
+      clearInterval(stepTimer)
+      clearInterval(heartbeatTimer)
+      wss.clients.forEach(socket => socket.terminate())
+      wss.close()
+    }
+  }
+}
+
+export type MultiplayerServer = ReturnType<typeof attachMultiplayerServer>
@@ -0,0 +1,73 @@
+// Server-side persistence for Farcaster notification tokens, one per fid. The
+// webhook route and the reminder sender only use the NotificationStore
+// interface, so the JSON file can be swapped for a database.
+
+import path from 'path'
+import { createJsonFile } from './jsonFile'
+
+// What a Farcaster client hands over when notifications are enabled
+export interface NotificationDetails {
+  url: string
+  token: string
+}
+
+export interface NotificationSubscription extends NotificationDetails {
+  fid: number
+  updatedAt: number // Epoch milliseconds
+  lastReminder: string | null // notificationId of the last reminder delivered
+}
+
+export interface NotificationStore {
+  save(fid: number, details: NotificationDetails): Promise<void>
+  remove(fid: number): Promise<void>
+  list(): Promise<NotificationSubscription[]>
+  markReminded(fids: number[], notificationId: string): Promise<void>
+}
+
+type Subscriptions = Record<string, NotificationSubscription>
+
+export function createJsonFileNotificationStore(file: string): NotificationStore {
+  const document = createJsonFile<Subscriptions>(
+    file,
+    data => (typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Subscriptions) : {}),
+    () => ({})
+  )
+
+  return {
+    save: async (fid, details) => {
+      await document.update(subscriptions => ({
+        ...subscriptions,
+        // A new token means a new subscription, so it's due today's reminder again
+        [fid]: { fid, url: details.url, token: details.token, updatedAt: Date.now(), lastReminder: null }
+      }))
+    },
+    remove: async (fid) => {
+      await document.update(subscriptions => {
+        const { [fid]: _removed, ...rest } = subscriptions
+        return rest
+      })
+    },
+    list: async () => Object.values(await document.read()),
+    markReminded: async (fids, notificationId) => {
+      await document.update(subscriptions => {
+        const next = { ...subscriptions }
+        for (const fid of fids) {
+          if (next[fid]) next[fid] = { ...next[fid], lastReminder: notificationId }
+        }
+        return next
+      })
+    }
+  }
+}
+
+let store: NotificationStore | null = null
+
+// One store per server process; NOTIFICATIONS_FILE moves the file (default .data/notifications.json)
+export function getNotificationStore(): NotificationStore {
+  if (!store) {
+    store = createJsonFileNotificationStore(
+      process.env.NOTIFICATIONS_FILE || path.join(process.cwd(), '.data', 'notifications.json')
+    )
+  }
+  return store
+}
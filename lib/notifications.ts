@@ -0,0 +1,121 @@
+// Sends the "today's challenge is live" reminder to everyone who enabled
+// notifications. Each client's notification URL takes up to 100 tokens per
+// request; the notificationId is the same for the whole UTC day, so clients
+// drop repeats and the store skips anyone already reminded.
+
+import { MiniAppConfig } from './miniapp'
+import { NotificationStore, NotificationSubscription } from './notificationStore'
+import { withTimeout } from './timeout'
+
+export interface NotificationRequest {
+  notificationId: string // At most 128 characters
+  title: string // At most 32 characters
+  body: string // At most 128 characters
+  targetUrl: string // Must be on the app's domain
+  tokens: string[]
+}
+
+export interface NotificationResult {
+  successfulTokens: string[]
+  invalidTokens: string[]
+  rateLimitedTokens: string[]
+}
+
+export interface ReminderSummary {
+  notificationId: string
+  sent: number
+  skipped: number // Already reminded today
+  invalid: number // Tokens the client revoked; removed from the store
+  rateLimited: number // Left for the next run
+  failed: number // Requests that errored; left for the next run
+}
+
+const MAX_TOKENS_PER_REQUEST = 100
+const SEND_TIMEOUT_MS = 10_000
+
+const readTokens = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((token): token is string => typeof token === 'string') : []
+
+export async function sendNotification(url: string, request: NotificationRequest): Promise<NotificationResult> {
+  const response = await withTimeout(
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(request) }),
+    SEND_TIMEOUT_MS,
+    'Notification timeout'
+  )
+  if (!response.ok) {
+    throw new Error(`Notification request failed: ${response.status}`)
+  }
+  const { result } = await response.json()
+  return {
+    successfulTokens: readTokens(result?.successfulTokens),
+    invalidTokens: readTokens(result?.invalidTokens),
+    rateLimitedTokens: readTokens(result?.rateLimitedTokens)
+  }
+}
+
+export const dailyReminderId = (now: number = Date.now()) =>
+  `daily-challenge-${new Date(now).toISOString().slice(0, 10)}`
+
+// Subscriptions grouped by notification URL, in batches the clients accept
+function batchSubscriptions(subscriptions: NotificationSubscription[]): NotificationSubscription[][] {
+  const byUrl = new Map<string, NotificationSubscription[]>()
+  for (const subscription of subscriptions) {
+    byUrl.set(subscription.url, [...(byUrl.get(subscription.url) ?? []), subscription])
+  }
+  const batches: NotificationSubscription[][] = []
+  byUrl.forEach(group => {
+    for (let i = 0; i < group.length; i += MAX_TOKENS_PER_REQUEST) {
+      batches.push(group.slice(i, i + MAX_TOKENS_PER_REQUEST))
+    }
+  })
+  return batches
+}
+
+export async function sendDailyReminders(
+  store: NotificationStore,
+  config: MiniAppConfig,
+  now: number = Date.now()
+): Promise<ReminderSummary> {
+  const notificationId = dailyReminderId(now)
+  const subscriptions = await store.list()
+  const due = subscriptions.filter(subscription => subscription.lastReminder !== notificationId)
+  const summary: ReminderSummary = {
+    notificationId,
+    sent: 0,
+    skipped: subscriptions.length - due.length,
+    invalid: 0,
+    rateLimited: 0,
+    failed: 0
+  }
+
+  // Batches go out one at a time so a big list doesn't flood the client
+  for (const batch of batchSubscriptions(due)) {
+    const fidByToken = new Map(batch.map(subscription => [subscription.token, subscription.fid]))
+    let result: NotificationResult
+    try {
+      result = await sendNotification(batch[0].url, {
+        notificationId,
+        title: "Today's challenge is live",
+        body: 'A fresh daily leaderboard just opened. Roll in and set the score to beat!',
+        targetUrl: config.url,
+        tokens: Array.from(fidByToken.keys())
+      })
+    } catch (error) {
+      console.log(`Reminder batch to ${batch[0].url} failed:`, error)
+      summary.failed += batch.length
+      continue
+    }
+
+    const fidsFor = (tokens: string[]) =>
+      tokens.map(token => fidByToken.get(token)).filter((fid): fid is number => fid !== undefined)
+    await store.markReminded(fidsFor(result.successfulTokens), notificationId)
+    for (const fid of fidsFor(result.invalidTokens)) {
+      await store.remove(fid)
+    }
+    summary.sent += result.successfulTokens.length
+    summary.invalid += result.invalidTokens.length
+    summary.rateLimited += result.rateLimitedTokens.length
+  }
+
+  return summary
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest'
+import {
+  advanceSimulation,
+  ArenaBounds,
+  Ball,
+  CollisionEvent,
+  createSimulation,
+  DEFAULT_PHYSICS_PARAMS,
+  FIXED_TIMESTEP_MS,
+  MAX_STEPS_PER_ADVANCE,
+  MIN_IMPACT_SPEED,
+  PhysicsParams,
+  Simulation,
+  stepPhysics,
+  Vector
+} from './physics'
+
+const BOUNDS: ArenaBounds = { width: 400, height: 400 }
+const STILL: Vector = { x: 0, y: 0 }
+
+const makeBall = (overrides: Partial<Ball> = {}): Ball => ({
+  x: 200,
+  y: 200,
+  vx: 0,
+  vy: 0,
+  radius: 20,
+  mass: 0.01,
+  color: '#fff',
+  spin: 0,
+  ...overrides
+})
+
+// Run `frames` frames of `frameMs` each with a constant tilt
+function runFrames(simulation: Simulation, frames: number, frameMs: number, acceleration: Vector, params = DEFAULT_PHYSICS_PARAMS) {
+  let current = simulation
+  let steps = 0
+  const events: CollisionEvent[] = []
+  for (let i = 0; i < frames; i++) {
+    const result = advanceSimulation(current, frameMs, acceleration, BOUNDS, params)
+    current = result.simulation
+    steps += result.steps
+    events.push(...result.events)
+  }
+  return { simulation: current, steps, events }
+}
+
+describe('advanceSimulation', () => {
+  it('gives the same result at 60 Hz and 120 Hz', () => {
+    const start = () => createSimulation([makeBall({ vx: 3, vy: -2 }), makeBall({ x: 100, y: 300, vx: -4 })])
+    const tilt = { x: 0.05, y: 0.08 }
+    // 1000/60 and 1000/120 don't add up exactly in floating point, so both rates stop
+    // a quarter step into the last frame instead of on the step boundary
+    const at60 = runFrames(start(), 60, FIXED_TIMESTEP_MS, tilt)
+    const at120 = runFrames(start(), 120, FIXED_TIMESTEP_MS / 2, tilt)
+    const last60 = advanceSimulation(at60.simulation, FIXED_TIMESTEP_MS / 4, tilt, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    const last120 = advanceSimulation(at120.simulation, FIXED_TIMESTEP_MS / 4, tilt, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+
+    expect(at60.steps + last60.steps).toBe(at120.steps + last120.steps)
+    expect(last120.simulation.state).toEqual(last60.simulation.state)
+    expect(at120.events).toEqual(at60.events)
+  })
+
+  it('carries partial steps over to the next frame', () => {
+    const first = advanceSimulation(createSimulation([makeBall()]), FIXED_TIMESTEP_MS * 0.6, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(first.steps).toBe(0)
+    const second = advanceSimulation(first.simulation, FIXED_TIMESTEP_MS * 0.6, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(second.steps).toBe(1)
+    expect(second.simulation.accumulator).toBeCloseTo(FIXED_TIMESTEP_MS * 0.2)
+  })
+
+  it('caps a long frame at MAX_STEPS_PER_ADVANCE and drops the backlog', () => {
+    const result = advanceSimulation(createSimulation([makeBall()]), 5000, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(result.steps).toBe(MAX_STEPS_PER_ADVANCE)
+    expect(result.simulation.accumulator).toBeLessThanOrEqual(FIXED_TIMESTEP_MS)
+
+    // The time that was dropped doesn't come back on the next frame
+    const next = advanceSimulation(result.simulation, 0, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(next.steps).toBeLessThanOrEqual(1)
+  })
+
+  it('ignores negative elapsed time', () => {
+    const simulation = createSimulation([makeBall({ vx: 2 })])
+    const result = advanceSimulation(simulation, -100, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(result.steps).toBe(0)
+    expect(result.simulation.state).toBe(simulation.state)
+  })
+})
+
+describe('stepPhysics', () => {
+  it('is deterministic', () => {
+    const state = createSimulation([makeBall({ vx: 5, vy: 3, spin: 0.1 })]).state
+    expect(stepPhysics(state, { x: 0.1, y: 0 }, BOUNDS, DEFAULT_PHYSICS_PARAMS)).toEqual(
+      stepPhysics(state, { x: 0.1, y: 0 }, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    )
+  })
+
+  it('bounces off a wall with an event carrying the impact speed', () => {
+    const state = createSimulation([makeBall({ x: 380 - 1, vx: 10 })]).state
+    const { state: next, events } = stepPhysics(state, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+
+    const bounce = events.find(event => event.type === 'bounce')
+    expect(bounce).toMatchObject({ type: 'bounce', ball: 0, wall: 'right', normal: { x: -1, y: 0 } })
+    // The event reports the approach speed after rolling resistance and drag, a little under 10
+    const speed = bounce && bounce.type === 'bounce' ? bounce.speed : 0
+    expect(speed).toBeGreaterThan(9.5)
+    expect(speed).toBeLessThanOrEqual(10)
+    // It leaves the wall at the approach speed scaled by the bounce damping
+    expect(next.balls[0].vx).toBeCloseTo(-speed * DEFAULT_PHYSICS_PARAMS.bounceDamping)
+    expect(next.balls[0].x).toBeLessThanOrEqual(BOUNDS.width - 20)
+  })
+
+  it('reports harder impacts with higher speeds', () => {
+    const impact = (vx: number) => {
+      const state = createSimulation([makeBall({ x: 379, vx })]).state
+      const bounce = stepPhysics(state, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS).events.find(event => event.type === 'bounce')
+      return bounce && bounce.type === 'bounce' ? bounce.speed : 0
+    }
+    expect(impact(15)).toBeGreaterThan(impact(5))
+  })
+
+  it('stops a ball leaning on a wall without a bounce event', () => {
+    const state = createSimulation([makeBall({ x: 380, vx: MIN_IMPACT_SPEED / 2 })]).state
+    const { state: next, events } = stepPhysics(state, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(events.some(event => event.type === 'bounce')).toBe(false)
+    expect(next.balls[0].vx).toBeCloseTo(0)
+  })
+
+  it('pushes equal balls apart when they meet head on', () => {
+    const state = createSimulation([makeBall({ x: 180, vx: 3 }), makeBall({ x: 219, vx: -3 })]).state
+    const { state: next, events } = stepPhysics(state, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS)
+    expect(events).toContainEqual(expect.objectContaining({ type: 'ballHit', ball: 0, other: 1 }))
+    expect(next.balls[0].vx).toBeLessThan(0)
+    expect(next.balls[1].vx).toBeGreaterThan(0)
+    // Momentum is kept
+    expect(next.balls[0].vx + next.balls[1].vx).toBeCloseTo(0)
+  })
+
+  it('emits a zone event once when a ball nears a wall', () => {
+    const approaching = runFrames(createSimulation([makeBall({ x: 340, vx: 2 })]), 20, FIXED_TIMESTEP_MS, STILL)
+    expect(approaching.events.filter(event => event.type === 'zoneEnter' && event.wall === 'right')).toHaveLength(1)
+  })
+
+  it('clamps speed to maxVelocity', () => {
+    const params: PhysicsParams = { ...DEFAULT_PHYSICS_PARAMS, maxVelocity: 12 }
+    const state = createSimulation([makeBall({ vx: 40, vy: 30 })]).state
+    const { balls } = stepPhysics(state, STILL, BOUNDS, params).state
+    expect(Math.hypot(balls[0].vx, balls[0].vy)).toBeCloseTo(12)
+    // Direction is kept
+    expect(balls[0].vy / balls[0].vx).toBeCloseTo(30 / 40)
+  })
+
+  it('clamps a small ball to its own radius per step', () => {
+    const state = createSimulation([makeBall({ radius: 5, vx: 20 })]).state
+    const { balls } = stepPhysics(state, STILL, BOUNDS, DEFAULT_PHYSICS_PARAMS).state
+    expect(balls[0].vx).toBeCloseTo(5)
+  })
+
+  it('keeps every ball inside the arena under strong tilt', () => {
+    const tilt = { x: 3, y: 3 }
+    const result = runFrames(createSimulation([makeBall({ vx: 20, vy: -20 })]), 300, FIXED_TIMESTEP_MS, tilt)
+    const [ball] = result.simulation.state.balls
+    expect(ball.x).toBeLessThanOrEqual(BOUNDS.width - ball.radius + 1e-9)
+    expect(ball.y).toBeLessThanOrEqual(BOUNDS.height - ball.radius + 1e-9)
+    expect(ball.x).toBeGreaterThanOrEqual(ball.radius)
+    expect(ball.y).toBeGreaterThanOrEqual(ball.radius)
+  })
+})
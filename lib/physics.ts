@@ -0,0 +1,730 @@
+// Deterministic fixed-timestep physics for FidgetBall.
+// Everything here is pure: no DOM, no timers, no side effects. Feedback (audio/haptics)
+// is driven by the collision events returned from each step.
+// Positions are in px and velocities in px/step, but the model is a solid ball rolling
+// on glass in real units: `pixelsPerMetre` maps the screen to its physical size, so
+// tilt, rolling resistance, air drag and mass all use their SI values.
+
+import { findCandidatePairs } from './broadphase'
+
+export interface Vector {
+  x: number
+  y: number
+}
+
+export interface Ball {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  spin: number   // Angular velocity about the vertical axis in rad/step, positive clockwise on screen
+  radius: number
+  color: string
+  mass: number   // kg
+}
+
+export interface ArenaBounds {
+  width: number
+  height: number
+}
+
+// Which side of the arena a wall faces, for per-wall sounds; curved and angled walls take the nearest side
+export type Wall = 'left' | 'right' | 'top' | 'bottom'
+
+// Whether the ball is in each wall's zone, indexed like ArenaLayout.walls (top, right, bottom, left when null)
+export type CollisionZones = boolean[]
+
+export type BallKind = 'marble' | 'steel'
+
+export interface BallKindProperties {
+  name: string
+  density: number           // kg/m³
+  rollingResistance: number // Coefficient on glass at the default slider setting
+  wallFriction: number      // Sliding friction against the arena walls
+  spinDecay: number         // Spin lost to pivoting on the glass, per second
+}
+
+export interface PhysicsParams {
+  pixelsPerMetre: number    // Screen scale, so the arena is its real size
+  rollingResistance: number // Rolling resistance coefficient against the glass
+  bounceDamping: number     // Coefficient of restitution for walls, balls and obstacles (0-1)
+  wallFriction: number      // Sliding friction at wall contacts, which trades speed for spin
+  spinDecay: number         // Spin lost per second
+  maxVelocity: number       // Speed cap in px/step; small balls are capped lower, see stepBall
+  collisionZoneSize: number // Invisible zone extending from each wall, in px
+}
+
+// Static level geometry, already resolved to pixels
+export type Obstacle =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | { type: 'segment'; x1: number; y1: number; x2: number; y2: number }
+
+export interface HoleRegion {
+  x: number
+  y: number
+  radius: number
+}
+
+export interface GoalRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A piece of a convex arena's boundary, already resolved to pixels. Walls run clockwise
+// on screen so they can be traced as one outline. Lines block along their whole
+// infinite length but only count as near within their span; arcs only apply
+// within their angular span, starting at `start` radians and sweeping clockwise.
+export type ArenaWall =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; nx: number; ny: number } // Normal points inward
+  | { type: 'arc'; x: number; y: number; radius: number; start: number; sweep: number }
+
+// Ground with its own behaviour, already resolved to pixels. Patches act on a ball whose
+// centre is over them; bumpers are round and springy; magnets pull a ball within `radius`,
+// or push it away when `strength` is negative.
+export type Surface =
+  | { type: 'ice' | 'sand'; x: number; y: number; width: number; height: number }
+  | { type: 'conveyor'; x: number; y: number; width: number; height: number; angle: number; strength: number } // m/s² along `angle`
+  | { type: 'bumper'; x: number; y: number; radius: number; kick: number } // m/s added to every rebound
+  | { type: 'magnet'; x: number; y: number; radius: number; strength: number } // m/s² at the centre, fading to 0 at `radius`
+
+export interface ArenaLayout {
+  walls: ArenaWall[] | null // Null means the plain `bounds` rectangle
+  obstacles: Obstacle[]
+  surfaces: Surface[]
+  holes: HoleRegion[]  // Swallow the ball and send it back to `spawn`
+  goals: GoalRegion[]
+  spawn: Vector | null // Null means "wherever the ball happens to be"
+}
+
+// `ball` and `other` are indices into PhysicsState.balls, `goal` into ArenaLayout.goals.
+// Wall events carry the wall's normal at the contact, pointing back into the arena.
+export type CollisionEvent =
+  | { type: 'zoneEnter'; ball: number; wall: Wall; normal: Vector }
+  | { type: 'bounce'; ball: number; wall: Wall; normal: Vector; speed: number }
+  | { type: 'ballHit'; ball: number; other: number; speed: number }
+  | { type: 'obstacleHit'; ball: number; speed: number }
+  | { type: 'hole'; ball: number }
+  | { type: 'goal'; ball: number; goal: number }
+
+export interface PhysicsState {
+  balls: Ball[]
+  zones: CollisionZones[]      // Parallel to `balls`
+  goals: Array<number | null> // Goal each ball is currently inside, parallel to `balls`
+}
+
+export interface StepResult {
+  state: PhysicsState
+  events: CollisionEvent[]
+}
+
+export interface Simulation {
+  state: PhysicsState
+  accumulator: number // Unsimulated time carried over to the next advance, in ms
+}
+
+export interface AdvanceResult {
+  simulation: Simulation
+  events: CollisionEvent[]
+  steps: number
+}
+
+// Tuning constants were originally calibrated against a 60 Hz display
+export const FIXED_TIMESTEP_MS = 1000 / 60
+// Long stalls (background tab, debugger) are dropped instead of fast-forwarded
+export const MAX_STEPS_PER_ADVANCE = 8
+export const MAX_BALLS = 50
+export const STANDARD_GRAVITY = 9.81 // m/s²
+export const STEP_SECONDS = FIXED_TIMESTEP_MS / 1000
+// CSS pixels are defined as 1/96 inch, which is about right on desktop screens
+export const DEFAULT_PIXELS_PER_METRE = 96 / 0.0254
+// Contacts slower than this plus one step of tilt are balls resting against something, not impacts
+export const MIN_IMPACT_SPEED = 0.5
+// A solid ball rolling without slipping puts 2/7 of the push into turning, so it accelerates at 5/7 g sin θ
+const ROLLING_ACCELERATION = 5 / 7
+const AIR_DENSITY = 1.2 // kg/m³
+const SPHERE_DRAG_COEFFICIENT = 0.47
+// How ice and sand scale the ball's rolling resistance
+const ICE_RESISTANCE = 0.1
+const SAND_RESISTANCE = 40
+
+export const BALL_KIND_IDS: readonly BallKind[] = ['marble', 'steel']
+
+export const BALL_KINDS: Record<BallKind, BallKindProperties> = {
+  marble: { name: 'Glass marble', density: 2500, rollingResistance: 0.003, wallFriction: 0.4, spinDecay: 1.5 },
+  steel: { name: 'Steel ball', density: 7850, rollingResistance: 0.0015, wallFriction: 0.25, spinDecay: 0.8 }
+}
+
+export const EMPTY_LAYOUT: ArenaLayout = {
+  walls: null,
+  obstacles: [],
+  surfaces: [],
+  holes: [],
+  goals: [],
+  spawn: null
+}
+
+export const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
+  pixelsPerMetre: DEFAULT_PIXELS_PER_METRE,
+  rollingResistance: BALL_KINDS.marble.rollingResistance,
+  bounceDamping: 0.9,
+  wallFriction: BALL_KINDS.marble.wallFriction,
+  spinDecay: BALL_KINDS.marble.spinDecay,
+  maxVelocity: 24,
+  collisionZoneSize: 10
+}
+
+const NO_ACCELERATION: Vector = { x: 0, y: 0 }
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// m/s² to px/step²
+const pixelAcceleration = (params: PhysicsParams) => params.pixelsPerMetre * STEP_SECONDS * STEP_SECONDS
+
+// Normalized tilt (1 = 1g) to the px/step² a rolling ball picks up on this screen
+export function accelerationForTilt(tilt: Vector, params: PhysicsParams = DEFAULT_PHYSICS_PARAMS): Vector {
+  const scale = STANDARD_GRAVITY * ROLLING_ACCELERATION * pixelAcceleration(params)
+  return { x: tilt.x * scale, y: tilt.y * scale }
+}
+
+// Missing entries read as "not in the zone", so one empty list fits any arena
+export function createZones(): CollisionZones {
+  return []
+}
+
+// The side an inward normal faces away from: a wall pushing the ball right is on the left
+export function wallForNormal(normal: Vector): Wall {
+  if (Math.abs(normal.x) >= Math.abs(normal.y)) return normal.x > 0 ? 'left' : 'right'
+  return normal.y > 0 ? 'top' : 'bottom'
+}
+
+const withinSweep = (angle: number, start: number, sweep: number) =>
+  (((angle - start) % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2) <= sweep
+
+// How far the point is inside a wall and the wall's inward normal there, or null outside an arc's span
+function wallContact(wall: ArenaWall, x: number, y: number): { distance: number; normal: Vector; inSpan: boolean } | null {
+  if (wall.type === 'line') {
+    const sx = wall.x2 - wall.x1
+    const sy = wall.y2 - wall.y1
+    const t = ((x - wall.x1) * sx + (y - wall.y1) * sy) / (sx * sx + sy * sy || 1)
+    return {
+      distance: (x - wall.x1) * wall.nx + (y - wall.y1) * wall.ny,
+      normal: { x: wall.nx, y: wall.ny },
+      inSpan: t >= 0 && t <= 1
+    }
+  }
+
+  const dx = x - wall.x
+  const dy = y - wall.y
+  if (!withinSweep(Math.atan2(dy, dx), wall.start, wall.sweep)) return null
+  const fromCentre = Math.sqrt(dx * dx + dy * dy)
+  return {
+    distance: wall.radius - fromCentre,
+    normal: fromCentre > 0 ? { x: -dx / fromCentre, y: -dy / fromCentre } : { x: 0, y: -1 },
+    inSpan: true
+  }
+}
+
+// Whether a circle fits inside the arena without touching a wall
+export function isInsideArena(point: Vector, radius: number, bounds: ArenaBounds, layout: ArenaLayout = EMPTY_LAYOUT): boolean {
+  if (point.x < radius || point.y < radius || point.x > bounds.width - radius || point.y > bounds.height - radius) {
+    return false
+  }
+  return (layout.walls ?? []).every(wall => {
+    const contact = wallContact(wall, point.x, point.y)
+    return !contact || contact.distance >= radius
+  })
+}
+
+// Push a ball that ended up past a wall back inside without touching its velocity.
+// Mutates `ball`, which must be a copy the caller owns.
+export function constrainToArena(ball: Ball, bounds: ArenaBounds, layout: ArenaLayout = EMPTY_LAYOUT) {
+  for (const wall of layout.walls ?? []) {
+    const contact = wallContact(wall, ball.x, ball.y)
+    if (!contact || contact.distance >= ball.radius) continue
+    ball.x += contact.normal.x * (ball.radius - contact.distance)
+    ball.y += contact.normal.y * (ball.radius - contact.distance)
+  }
+  ball.x = clamp(ball.x, ball.radius, bounds.width - ball.radius)
+  ball.y = clamp(ball.y, ball.radius, bounds.height - ball.radius)
+}
+
+// Ball size settings are diameters in mm
+export const radiusForDiameter = (diameterMm: number, pixelsPerMetre: number) => (diameterMm / 2000) * pixelsPerMetre
+
+// Mass of a solid ball, in kg
+export function massForRadius(
+  radius: number,
+  kind: BallKind = 'marble',
+  pixelsPerMetre: number = DEFAULT_PIXELS_PER_METRE
+): number {
+  const metres = radius / pixelsPerMetre
+  return BALL_KINDS[kind].density * (4 / 3) * Math.PI * metres * metres * metres
+}
+
+// The fastest a ball can go, in px/step. Any faster than its own radius per step and it
+// could skip clean past a thin obstacle, so small balls are capped below maxVelocity.
+export const speedLimit = (ball: Ball, params: PhysicsParams) => Math.min(params.maxVelocity, ball.radius)
+
+// The plain rectangle as clockwise walls, so it collides like any other arena
+function boundsWalls(bounds: ArenaBounds): ArenaWall[] {
+  const { width, height } = bounds
+  return [
+    { type: 'line', x1: 0, y1: 0, x2: width, y2: 0, nx: 0, ny: 1 },
+    { type: 'line', x1: width, y1: 0, x2: width, y2: height, nx: -1, ny: 0 },
+    { type: 'line', x1: width, y1: height, x2: 0, y2: height, nx: 0, ny: -1 },
+    { type: 'line', x1: 0, y1: height, x2: 0, y2: 0, nx: 1, ny: 0 }
+  ]
+}
+
+// Air drag per px/step of speed squared: ½ρCdA/m, converted to px
+function dragFactor(ball: Ball, params: PhysicsParams): number {
+  if (ball.mass <= 0) return 0
+  const radius = ball.radius / params.pixelsPerMetre
+  return (0.5 * AIR_DENSITY * SPHERE_DRAG_COEFFICIENT * Math.PI * radius * radius) / ball.mass / params.pixelsPerMetre
+}
+
+export function createSimulation(balls: Ball[]): Simulation {
+  return {
+    state: { balls, zones: balls.map(() => createZones()), goals: balls.map(() => null) },
+    accumulator: 0
+  }
+}
+
+export function addBall(state: PhysicsState, ball: Ball): PhysicsState {
+  if (state.balls.length >= MAX_BALLS) return state
+  return {
+    balls: [...state.balls, ball],
+    zones: [...state.zones, createZones()],
+    goals: [...state.goals, null]
+  }
+}
+
+const insidePatch = (surface: { x: number; y: number; width: number; height: number }, ball: Ball) =>
+  ball.x >= surface.x && ball.x <= surface.x + surface.width && ball.y >= surface.y && ball.y <= surface.y + surface.height
+
+// What the ground under a ball adds to its acceleration (px/step²) and how it scales its rolling resistance
+function groundUnder(ball: Ball, surfaces: Surface[], params: PhysicsParams): { acceleration: Vector; resistance: number } {
+  const scale = pixelAcceleration(params)
+  const acceleration = { x: 0, y: 0 }
+  let resistance = 1
+  for (const surface of surfaces) {
+    switch (surface.type) {
+      case 'ice':
+      case 'sand':
+        if (insidePatch(surface, ball)) resistance *= surface.type === 'ice' ? ICE_RESISTANCE : SAND_RESISTANCE
+        break
+      case 'conveyor':
+        if (insidePatch(surface, ball)) {
+          acceleration.x += Math.cos(surface.angle) * surface.strength * scale
+          acceleration.y += Math.sin(surface.angle) * surface.strength * scale
+        }
+        break
+      case 'magnet': {
+        const dx = surface.x - ball.x
+        const dy = surface.y - ball.y
+        const distance = Math.sqrt(dx * dx + dy * dy)
+        if (distance === 0 || distance >= surface.radius) break
+        const pull = surface.strength * (1 - distance / surface.radius) * scale
+        acceleration.x += (dx / distance) * pull
+        acceleration.y += (dy / distance) * pull
+        break
+      }
+      case 'bumper':
+        break
+    }
+  }
+  return { acceleration, resistance }
+}
+
+// Integrate one ball and resolve it against the arena walls
+function stepBall(
+  ball: Ball,
+  index: number,
+  previousZones: CollisionZones,
+  acceleration: Vector,
+  resistance: number,
+  walls: ArenaWall[],
+  restingSpeed: number,
+  params: PhysicsParams,
+  events: CollisionEvent[]
+): { ball: Ball; zones: CollisionZones } {
+  let vx = ball.vx + acceleration.x
+  let vy = ball.vy + acceleration.y
+
+  // Rolling resistance takes off a fixed amount of speed per step and never reverses the ball;
+  // air drag grows with the square of the speed
+  const speed = Math.sqrt(vx * vx + vy * vy)
+  if (speed > 0) {
+    const rolling = params.rollingResistance * resistance * STANDARD_GRAVITY * pixelAcceleration(params)
+    const drag = dragFactor(ball, params) * speed * speed
+    const slowed = Math.min(Math.max(0, speed - rolling - drag), speedLimit(ball, params))
+    vx *= slowed / speed
+    vy *= slowed / speed
+  }
+
+  const spin = ball.spin * Math.exp(-params.spinDecay * STEP_SECONDS)
+  const moved = { ...ball, x: ball.x + vx, y: ball.y + vy, vx, vy, spin }
+  return collideWalls(moved, index, previousZones, walls, restingSpeed, params, events)
+}
+
+// Friction at the contact works against the slip between the ball's surface and the wall,
+// so a ball sliding along a wall starts spinning and a spinning ball kicks off sideways.
+// Mutates `ball`, which is a fresh copy owned by the current step.
+function applyWallFriction(ball: Ball, normal: Vector, normalImpulse: number, wallFriction: number) {
+  const tangent = { x: -normal.y, y: normal.x }
+  const slip = ball.vx * tangent.x + ball.vy * tangent.y - ball.spin * ball.radius
+  // Stopping the slip of a solid ball takes 2/7 of it off the velocity and puts the rest into spin;
+  // friction can only do that much when the impact is hard enough
+  const change = Math.sign(slip) * Math.min((Math.abs(slip) * 2) / 7, wallFriction * normalImpulse)
+  ball.vx -= change * tangent.x
+  ball.vy -= change * tangent.y
+  ball.spin += (change * 5) / (2 * ball.radius)
+}
+
+// Reflect the velocity about each wall's normal at the contact
+function collideWalls(
+  ball: Ball,
+  index: number,
+  previousZones: CollisionZones,
+  walls: ArenaWall[],
+  restingSpeed: number,
+  params: PhysicsParams,
+  events: CollisionEvent[]
+): { ball: Ball; zones: CollisionZones } {
+  // Track the invisible zones near each wall; entering one is what triggers feedback
+  const zoneReach = ball.radius + params.collisionZoneSize
+  const zones: CollisionZones = walls.map((wall, i) => {
+    const contact = wallContact(wall, ball.x, ball.y)
+    const inZone = contact !== null && contact.inSpan && contact.distance <= zoneReach
+    if (contact && inZone && !previousZones[i]) {
+      events.push({ type: 'zoneEnter', ball: index, wall: wallForNormal(contact.normal), normal: contact.normal })
+    }
+    return inZone
+  })
+
+  for (const wall of walls) {
+    const contact = wallContact(wall, ball.x, ball.y)
+    if (!contact || contact.distance > ball.radius) continue
+
+    const { normal } = contact
+    ball.x += normal.x * (ball.radius - contact.distance)
+    ball.y += normal.y * (ball.radius - contact.distance)
+
+    const normalSpeed = ball.vx * normal.x + ball.vy * normal.y
+    if (normalSpeed >= 0) continue
+
+    // A ball leaning on the wall under tilt just stops against it instead of rattling
+    if (-normalSpeed <= restingSpeed) {
+      ball.vx -= normalSpeed * normal.x
+      ball.vy -= normalSpeed * normal.y
+      continue
+    }
+
+    events.push({ type: 'bounce', ball: index, wall: wallForNormal(normal), normal, speed: -normalSpeed })
+    ball.vx -= (1 + params.bounceDamping) * normalSpeed * normal.x
+    ball.vy -= (1 + params.bounceDamping) * normalSpeed * normal.y
+    applyWallFriction(ball, normal, -(1 + params.bounceDamping) * normalSpeed, params.wallFriction)
+  }
+
+  return { ball, zones }
+}
+
+function closestPointOnObstacle(obstacle: Obstacle, px: number, py: number): Vector {
+  switch (obstacle.type) {
+    case 'rect':
+      return {
+        x: clamp(px, obstacle.x, obstacle.x + obstacle.width),
+        y: clamp(py, obstacle.y, obstacle.y + obstacle.height)
+      }
+    case 'circle': {
+      const dx = px - obstacle.x
+      const dy = py - obstacle.y
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1
+      return {
+        x: obstacle.x + (dx / distance) * obstacle.radius,
+        y: obstacle.y + (dy / distance) * obstacle.radius
+      }
+    }
+    case 'segment': {
+      const sx = obstacle.x2 - obstacle.x1
+      const sy = obstacle.y2 - obstacle.y1
+      const lengthSq = sx * sx + sy * sy
+      const t = lengthSq > 0 ? clamp(((px - obstacle.x1) * sx + (py - obstacle.y1) * sy) / lengthSq, 0, 1) : 0
+      return { x: obstacle.x1 + sx * t, y: obstacle.y1 + sy * t }
+    }
+  }
+}
+
+// Outward normal for a ball whose centre has ended up inside an obstacle
+function insideNormal(obstacle: Obstacle, ball: Ball): Vector | null {
+  if (obstacle.type === 'rect') {
+    const inside = ball.x > obstacle.x && ball.x < obstacle.x + obstacle.width &&
+                   ball.y > obstacle.y && ball.y < obstacle.y + obstacle.height
+    if (!inside) return null
+
+    // Leave through the nearest face
+    const exits = [
+      { distance: ball.x - obstacle.x, normal: { x: -1, y: 0 } },
+      { distance: obstacle.x + obstacle.width - ball.x, normal: { x: 1, y: 0 } },
+      { distance: ball.y - obstacle.y, normal: { x: 0, y: -1 } },
+      { distance: obstacle.y + obstacle.height - ball.y, normal: { x: 0, y: 1 } }
+    ]
+    return exits.reduce((best, exit) => exit.distance < best.distance ? exit : best).normal
+  }
+
+  if (obstacle.type === 'circle') {
+    const dx = ball.x - obstacle.x
+    const dy = ball.y - obstacle.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    if (distance >= obstacle.radius) return null
+    return distance > 0 ? { x: dx / distance, y: dy / distance } : { x: 0, y: -1 }
+  }
+
+  return null
+}
+
+// Push a ball out of an obstacle and reflect the velocity component along the contact normal.
+// Mutates `ball`, which is a fresh copy owned by the current step.
+function resolveObstacle(
+  ball: Ball,
+  index: number,
+  obstacle: Obstacle,
+  restitution: number,
+  restingSpeed: number,
+  events: CollisionEvent[]
+) {
+  let normal = insideNormal(obstacle, ball)
+  let contact: Vector
+
+  if (normal) {
+    // Inside a rect the clamped point is the centre itself, so project onto the exit face instead
+    contact = obstacle.type === 'rect'
+      ? {
+          x: normal.x === 0 ? ball.x : normal.x < 0 ? obstacle.x : obstacle.x + obstacle.width,
+          y: normal.y === 0 ? ball.y : normal.y < 0 ? obstacle.y : obstacle.y + obstacle.height
+        }
+      : closestPointOnObstacle(obstacle, ball.x, ball.y)
+  } else {
+    contact = closestPointOnObstacle(obstacle, ball.x, ball.y)
+    const dx = ball.x - contact.x
+    const dy = ball.y - contact.y
+    const distanceSq = dx * dx + dy * dy
+    if (distanceSq >= ball.radius * ball.radius) return
+
+    const distance = Math.sqrt(distanceSq)
+    // Centre exactly on a segment: push back the way the ball came
+    normal = distance > 0
+      ? { x: dx / distance, y: dy / distance }
+      : { x: -Math.sign(ball.vx) || 0, y: -Math.sign(ball.vy) || -1 }
+  }
+
+  ball.x = contact.x + normal.x * ball.radius
+  ball.y = contact.y + normal.y * ball.radius
+
+  const normalSpeed = ball.vx * normal.x + ball.vy * normal.y
+  if (normalSpeed >= 0) return
+
+  // Resting contacts settle instead of bouncing
+  const bounced = -normalSpeed > restingSpeed
+  const response = 1 + (bounced ? restitution : 0)
+  ball.vx -= response * normalSpeed * normal.x
+  ball.vy -= response * normalSpeed * normal.y
+
+  if (bounced) {
+    events.push({ type: 'obstacleHit', ball: index, speed: -normalSpeed })
+  }
+}
+
+// Bumpers bounce the ball like a round obstacle, then their spring adds `kick` to the rebound,
+// so even a ball that rolls gently into one is sent away. Mutates `ball` like resolveObstacle.
+function resolveBumper(
+  ball: Ball,
+  index: number,
+  bumper: { x: number; y: number; radius: number; kick: number },
+  params: PhysicsParams,
+  events: CollisionEvent[]
+) {
+  const dx = ball.x - bumper.x
+  const dy = ball.y - bumper.y
+  const reach = bumper.radius + ball.radius
+  const distance = Math.sqrt(dx * dx + dy * dy)
+  if (distance >= reach) return
+
+  const normal = distance > 0 ? { x: dx / distance, y: dy / distance } : { x: 0, y: -1 }
+  ball.x = bumper.x + normal.x * reach
+  ball.y = bumper.y + normal.y * reach
+
+  const normalSpeed = ball.vx * normal.x + ball.vy * normal.y
+  if (normalSpeed >= 0) return
+
+  const rebound = -normalSpeed * params.bounceDamping + bumper.kick * params.pixelsPerMetre * STEP_SECONDS
+  ball.vx += (rebound - normalSpeed) * normal.x
+  ball.vy += (rebound - normalSpeed) * normal.y
+  events.push({ type: 'obstacleHit', ball: index, speed: rebound })
+}
+
+const insideGoal = (goal: GoalRegion, ball: Ball) =>
+  ball.x >= goal.x && ball.x <= goal.x + goal.width && ball.y >= goal.y && ball.y <= goal.y + goal.height
+
+// Separate two overlapping balls and exchange momentum along the contact normal.
+// Mutates `balls[i]` and `balls[j]`, which are fresh copies owned by the current step.
+function resolveBallPair(
+  balls: Ball[],
+  i: number,
+  j: number,
+  restitution: number,
+  restingSpeed: number,
+  events: CollisionEvent[]
+) {
+  const a = balls[i]
+  const b = balls[j]
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const minDistance = a.radius + b.radius
+  const distanceSq = dx * dx + dy * dy
+  if (distanceSq >= minDistance * minDistance) return
+
+  // Coincident centres get an arbitrary but deterministic normal
+  const distance = Math.sqrt(distanceSq)
+  const nx = distance > 0 ? dx / distance : 1
+  const ny = distance > 0 ? dy / distance : 0
+
+  // Push apart in proportion to the other ball's mass
+  const overlap = minDistance - distance
+  const inverseMassA = 1 / a.mass
+  const inverseMassB = 1 / b.mass
+  const inverseMassSum = inverseMassA + inverseMassB
+  a.x -= nx * overlap * (inverseMassA / inverseMassSum)
+  a.y -= ny * overlap * (inverseMassA / inverseMassSum)
+  b.x += nx * overlap * (inverseMassB / inverseMassSum)
+  b.y += ny * overlap * (inverseMassB / inverseMassSum)
+
+  // Only exchange momentum while the balls are approaching each other
+  const approachSpeed = (a.vx - b.vx) * nx + (a.vy - b.vy) * ny
+  if (approachSpeed <= 0) return
+
+  // Balls piled up under tilt settle against each other instead of bouncing
+  const bounced = approachSpeed > restingSpeed
+  const impulse = ((1 + (bounced ? restitution : 0)) * approachSpeed) / inverseMassSum
+  a.vx -= impulse * inverseMassA * nx
+  a.vy -= impulse * inverseMassA * ny
+  b.vx += impulse * inverseMassB * nx
+  b.vy += impulse * inverseMassB * ny
+
+  if (bounced) {
+    events.push({ type: 'ballHit', ball: i, other: j, speed: approachSpeed })
+  }
+}
+
+// Advance a single fixed step. `acceleration` is in px/step², see accelerationForTilt;
+// an array gives each ball its own, as when every player tilts their own ball.
+export function stepPhysics(
+  state: PhysicsState,
+  acceleration: Vector | Vector[],
+  bounds: ArenaBounds,
+  params: PhysicsParams,
+  layout: ArenaLayout = EMPTY_LAYOUT
+): StepResult {
+  const events: CollisionEvent[] = []
+  const balls: Ball[] = []
+  const zones: CollisionZones[] = []
+  const goals: Array<number | null> = []
+  const walls = layout.walls ?? boundsWalls(bounds)
+
+  const ground = state.balls.map(ball => groundUnder(ball, layout.surfaces, params))
+  const accelerations = state.balls.map((_, index) => {
+    const tilt = Array.isArray(acceleration) ? acceleration[index] ?? NO_ACCELERATION : acceleration
+    return { x: tilt.x + ground[index].acceleration.x, y: tilt.y + ground[index].acceleration.y }
+  })
+  // Anything approaching slower than one step of tilt and surfaces can add is leaning, not hitting
+  const restingSpeeds = accelerations.map(({ x, y }) => MIN_IMPACT_SPEED + Math.hypot(x, y))
+
+  state.balls.forEach((ball, index) => {
+    const result = stepBall(
+      ball,
+      index,
+      state.zones[index],
+      accelerations[index],
+      ground[index].resistance,
+      walls,
+      restingSpeeds[index],
+      params,
+      events
+    )
+    balls.push(result.ball)
+    zones.push(result.zones)
+  })
+
+  for (const [i, j] of findCandidatePairs(balls)) {
+    resolveBallPair(balls, i, j, params.bounceDamping, Math.max(restingSpeeds[i], restingSpeeds[j]), events)
+  }
+
+  balls.forEach((ball, index) => {
+    for (const obstacle of layout.obstacles) {
+      resolveObstacle(ball, index, obstacle, params.bounceDamping, restingSpeeds[index], events)
+    }
+    for (const surface of layout.surfaces) {
+      if (surface.type === 'bumper') resolveBumper(ball, index, surface, params, events)
+    }
+
+    // Pair and obstacle resolution can nudge a ball past a wall; keep everything inside the arena
+    constrainToArena(ball, bounds, layout)
+
+    const hole = layout.holes.find(hole => Math.hypot(ball.x - hole.x, ball.y - hole.y) < hole.radius)
+    if (hole) {
+      events.push({ type: 'hole', ball: index })
+      const spawn = layout.spawn ?? { x: bounds.width / 2, y: bounds.height / 2 }
+      balls[index] = { ...ball, x: spawn.x, y: spawn.y, vx: 0, vy: 0, spin: 0 }
+      zones[index] = createZones()
+      goals.push(null)
+      return
+    }
+
+    const goal = layout.goals.findIndex(goal => insideGoal(goal, ball))
+    if (goal !== -1 && state.goals[index] !== goal) {
+      events.push({ type: 'goal', ball: index, goal })
+    }
+    goals.push(goal === -1 ? null : goal)
+  })
+
+  return {
+    state: { balls, zones, goals },
+    events
+  }
+}
+
+// Consume `elapsedMs` of wall-clock time in fixed steps, carrying the remainder forward
+export function advanceSimulation(
+  simulation: Simulation,
+  elapsedMs: number,
+  acceleration: Vector | Vector[],
+  bounds: ArenaBounds,
+  params: PhysicsParams,
+  layout: ArenaLayout = EMPTY_LAYOUT
+): AdvanceResult {
+  let accumulator = simulation.accumulator + Math.max(0, elapsedMs)
+  let state = simulation.state
+  const events: CollisionEvent[] = []
+  let steps = 0
+
+  while (accumulator >= FIXED_TIMESTEP_MS && steps < MAX_STEPS_PER_ADVANCE) {
+    const result = stepPhysics(state, acceleration, bounds, params, layout)
+    state = result.state
+    events.push(...result.events)
+    accumulator -= FIXED_TIMESTEP_MS
+    steps++
+  }
+
+  if (steps === MAX_STEPS_PER_ADVANCE) {
+    accumulator = Math.min(accumulator, FIXED_TIMESTEP_MS)
+  }
+
+  return {
+    simulation: { state, accumulator },
+    events,
+    steps
+  }
+}
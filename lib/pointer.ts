@@ -0,0 +1,199 @@
+// Direct touch on top of tilt: a pointer that lands on a ball grabs it and pins
+// it under the finger, and releasing throws it with the pointer's recent speed.
+// A quick swipe anywhere else flicks the nearest ball from a distance. Every
+// pointer is tracked on its own, so one finger can hold a ball while another
+// flicks. Positions are in arena pixels and times in ms on the
+// performance.now() clock, which Pointer Events timestamps share.
+
+import {
+  ArenaBounds,
+  ArenaLayout,
+  Ball,
+  constrainToArena,
+  FIXED_TIMESTEP_MS,
+  PhysicsState,
+  Vector
+} from './physics'
+
+export interface Grab {
+  ball: number
+  target: Vector
+  velocity: Vector // px/step
+}
+
+// A throw replaces the ball's velocity; a flick adds to it
+export interface PointerImpulse {
+  ball: number
+  kind: 'throw' | 'flick'
+  velocity: Vector // px/step
+}
+
+interface Sample {
+  x: number
+  y: number
+  time: number
+}
+
+interface TrackedPointer {
+  ball: number | null // Null for a flick
+  samples: Sample[]
+  startedAt: number
+}
+
+// Fingers are blunter than a mouse cursor
+const TOUCH_MARGIN = 24
+const MOUSE_MARGIN = 6
+// Release speed is measured over the last few samples, so a pause before letting go drops the ball
+const VELOCITY_WINDOW_MS = 80
+const MAX_SAMPLES = 12
+// Slower or shorter swipes are ignored rather than treated as flicks
+const MAX_FLICK_MS = 300
+const MIN_FLICK_DISTANCE = 20
+// Flicks only nudge, so they pass on part of the swipe speed
+const FLICK_STRENGTH = 0.5
+
+const pointerVelocity = (samples: Sample[], now: number): Vector => {
+  const recent = samples.filter(sample => now - sample.time <= VELOCITY_WINDOW_MS)
+  if (recent.length < 2) return { x: 0, y: 0 }
+  const first = recent[0]
+  const last = recent[recent.length - 1]
+  const elapsedMs = last.time - first.time
+  if (elapsedMs <= 0) return { x: 0, y: 0 }
+  // px/ms to px/step
+  return {
+    x: ((last.x - first.x) / elapsedMs) * FIXED_TIMESTEP_MS,
+    y: ((last.y - first.y) / elapsedMs) * FIXED_TIMESTEP_MS
+  }
+}
+
+// The grabbable ball closest to the point, if any is within reach
+export function hitTestBall(balls: Ball[], point: Vector, pointerType: string, exclude: number[] = []): number | null {
+  const margin = pointerType === 'mouse' ? MOUSE_MARGIN : TOUCH_MARGIN
+  let closest: number | null = null
+  let closestDistance = Infinity
+  balls.forEach((ball, index) => {
+    if (exclude.includes(index)) return
+    const distance = Math.hypot(ball.x - point.x, ball.y - point.y)
+    if (distance <= ball.radius + margin && distance < closestDistance) {
+      closest = index
+      closestDistance = distance
+    }
+  })
+  return closest
+}
+
+const nearestBall = (balls: Ball[], point: Vector): number | null =>
+  balls.reduce<number | null>((nearest, ball, index) => {
+    if (nearest === null) return index
+    const best = balls[nearest]
+    return Math.hypot(ball.x - point.x, ball.y - point.y) < Math.hypot(best.x - point.x, best.y - point.y) ? index : nearest
+  }, null)
+
+export function createPointerControls() {
+  const pointers = new Map<number, TrackedPointer>()
+  const impulses: PointerImpulse[] = []
+
+  const grabbedBalls = () =>
+    Array.from(pointers.values()).flatMap(pointer => (pointer.ball === null ? [] : [pointer.ball]))
+
+  const track = (pointer: TrackedPointer, point: Vector, time: number) => {
+    pointer.samples.push({ x: point.x, y: point.y, time })
+    if (pointer.samples.length > MAX_SAMPLES) pointer.samples.shift()
+  }
+
+  return {
+    // Returns whether the pointer grabbed a ball, so the caller can capture it
+    down(id: number, point: Vector, pointerType: string, time: number, balls: Ball[]): boolean {
+      const ball = hitTestBall(balls, point, pointerType, grabbedBalls())
+      pointers.set(id, { ball, samples: [{ x: point.x, y: point.y, time }], startedAt: time })
+      return ball !== null
+    },
+    move(id: number, point: Vector, time: number) {
+      const pointer = pointers.get(id)
+      if (pointer) track(pointer, point, time)
+    },
+    // Lifting a finger throws what it held, or flicks the nearest ball after a quick swipe
+    up(id: number, point: Vector, time: number, balls: Ball[]) {
+      const pointer = pointers.get(id)
+      if (!pointer) return
+      pointers.delete(id)
+      track(pointer, point, time)
+
+      if (pointer.ball !== null) {
+        impulses.push({ ball: pointer.ball, kind: 'throw', velocity: pointerVelocity(pointer.samples, time) })
+        return
+      }
+
+      const start = pointer.samples[0]
+      const distance = Math.hypot(point.x - start.x, point.y - start.y)
+      if (time - pointer.startedAt > MAX_FLICK_MS || distance < MIN_FLICK_DISTANCE) return
+      const ball = nearestBall(balls, start)
+      if (ball === null || grabbedBalls().includes(ball)) return
+      // A whole-swipe average, since flicks are too short for the release window to be reliable
+      const elapsedMs = Math.max(1, time - pointer.startedAt)
+      impulses.push({
+        ball,
+        kind: 'flick',
+        velocity: {
+          x: ((point.x - start.x) / elapsedMs) * FIXED_TIMESTEP_MS * FLICK_STRENGTH,
+          y: ((point.y - start.y) / elapsedMs) * FIXED_TIMESTEP_MS * FLICK_STRENGTH
+        }
+      })
+    },
+    // The browser took the pointer away (a system gesture, say); drop whatever it held where it is
+    cancel(id: number) {
+      pointers.delete(id)
+    },
+    // Balls were added, removed or moved outside the simulation
+    reset() {
+      pointers.clear()
+      impulses.length = 0
+    },
+    get active() {
+      return pointers.size > 0
+    },
+    grabs(now: number): Grab[] {
+      return Array.from(pointers.values()).flatMap(pointer => {
+        if (pointer.ball === null) return []
+        const last = pointer.samples[pointer.samples.length - 1]
+        return [{ ball: pointer.ball, target: { x: last.x, y: last.y }, velocity: pointerVelocity(pointer.samples, now) }]
+      })
+    },
+    // Throws and flicks waiting to be applied, each only once
+    takeImpulses(): PointerImpulse[] {
+      return impulses.splice(0)
+    }
+  }
+}
+
+export type PointerControls = ReturnType<typeof createPointerControls>
+
+// Held balls sit under their pointer moving at its speed, so they still shove other balls;
+// thrown and flicked balls get their new velocity. Tilt keeps acting on everything in the next step.
+export function applyPointerControls(
+  state: PhysicsState,
+  grabs: Grab[],
+  impulses: PointerImpulse[],
+  bounds: ArenaBounds,
+  layout: ArenaLayout
+): PhysicsState {
+  if (grabs.length === 0 && impulses.length === 0) return state
+
+  const balls = state.balls.map(ball => ({ ...ball }))
+  for (const { ball: index, kind, velocity } of impulses) {
+    const ball = balls[index]
+    if (!ball) continue
+    ball.vx = kind === 'flick' ? ball.vx + velocity.x : velocity.x
+    ball.vy = kind === 'flick' ? ball.vy + velocity.y : velocity.y
+  }
+  for (const { ball: index, target, velocity } of grabs) {
+    const ball = balls[index]
+    if (!ball) continue
+    ball.x = target.x
+    ball.y = target.y
+    ball.vx = velocity.x
+    ball.vy = velocity.y
+    constrainToArena(ball, bounds, layout)
+  }
+  return { ...state, balls }
+}
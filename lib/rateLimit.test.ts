@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { clientAddress } from './rateLimit'
+
+const requestFrom = (forwardedFor?: string) =>
+  new Request('https://fidgetball.example.com/api/snapshots', {
+    method: 'POST',
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor }
+  })
+
+describe('clientAddress', () => {
+  it('reads the address the trusted proxy appended', () => {
+    expect(clientAddress(requestFrom('203.0.113.7'), 1)).toBe('203.0.113.7')
+  })
+
+  it('ignores entries the client sent ahead of the proxies', () => {
+    expect(clientAddress(requestFrom('1.2.3.4, 203.0.113.7'), 1)).toBe('203.0.113.7')
+    expect(clientAddress(requestFrom('1.2.3.4, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7')
+  })
+
+  it('knows nothing when the proxies added fewer entries than expected', () => {
+    expect(clientAddress(requestFrom('203.0.113.7'), 2)).toBeNull()
+    expect(clientAddress(requestFrom(), 1)).toBeNull()
+  })
+
+  it('ignores X-Forwarded-For without trusted proxies', () => {
+    expect(clientAddress(requestFrom('203.0.113.7'), 0)).toBeNull()
+  })
+})
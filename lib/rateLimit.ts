@@ -0,0 +1,48 @@
+// In-memory sliding-window rate limiter. State is per server process, which is
+// enough for the single-server deployments the file-backed stores target.
+
+// Forget idle keys once this many are tracked
+const PRUNE_THRESHOLD = 10_000
+
+export function createRateLimiter(limit: number, windowMs: number) {
+  const hits = new Map<string, number[]>()
+
+  const prune = (now: number) => {
+    hits.forEach((times, key) => {
+      if (times.every(time => now - time >= windowMs)) hits.delete(key)
+    })
+  }
+
+  return {
+    // Records the attempt and returns false once `key` has used up its window
+    allow(key: string, now: number = Date.now()): boolean {
+      if (hits.size > PRUNE_THRESHOLD) prune(now)
+      const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs)
+      const allowed = recent.length < limit
+      if (allowed) recent.push(now)
+      hits.set(key, recent)
+      return allowed
+    }
+  }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
+
+// How many proxies in front of the server append to X-Forwarded-For (TRUSTED_PROXY_HOPS, default 0)
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS)
+  return Number.isInteger(hops) && hops > 0 ? hops : 0
+}
+
+// The caller's address, or null when the server can't tell. Clients can send any
+// X-Forwarded-For they like, so only the entries our own proxies appended are read:
+// the outermost one records the address that connected to it. Without proxies, only a
+// host that knows the socket address (Vercel sets NextRequest.ip) can say.
+export function clientAddress(request: Request, hops: number = trustedProxyHops()): string | null {
+  if (hops === 0) return (request as Request & { ip?: string }).ip || null
+  const entries = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return entries.length >= hops ? entries[entries.length - hops] : null
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_BALLS, MAX_STEPS_PER_ADVANCE } from './physics'
+import { createRecorder, parseTrace, TraceValidationError } from './replay'
+import { DEFAULT_SETTINGS } from './settings'
+
+const ball = { x: 100, y: 100, vx: 0, vy: 0, radius: 20, mass: 0.01, color: '#fff', spin: 0 }
+
+const recordedTrace = () => {
+  const recorder = createRecorder({
+    settings: DEFAULT_SETTINGS,
+    arena: { width: 400, height: 400 },
+    pixelsPerMetre: 3780,
+    levelId: null,
+    surfaces: [],
+    balls: [ball]
+  })
+  recorder.record(1, { x: 0.25, y: -0.5 })
+  recorder.record(2, { x: -1, y: 1 })
+  return JSON.parse(JSON.stringify(recorder.finish()))
+}
+
+describe('parseTrace', () => {
+  it('accepts what the recorder writes', () => {
+    const trace = recordedTrace()
+    expect(parseTrace(trace)).toEqual(trace)
+  })
+
+  it.each([
+    ['zero steps', [0, 0, 0]],
+    ['negative steps', [-1, 0, 0]],
+    ['too many steps', [MAX_STEPS_PER_ADVANCE + 1, 0, 0]],
+    ['a huge step count', [1e9, 0, 0]],
+    ['tilt beyond 1g', [1, 1001, 0]]
+  ])('rejects a frame with %s', (_, frame) => {
+    expect(() => parseTrace({ ...recordedTrace(), frames: frame })).toThrow(TraceValidationError)
+  })
+
+  it.each([
+    ['zero radius', { radius: 0 }],
+    ['negative radius', { radius: -5 }],
+    ['zero mass', { mass: 0 }],
+    ['negative mass', { mass: -1 }]
+  ])('rejects a ball with %s', (_, change) => {
+    expect(() => parseTrace({ ...recordedTrace(), balls: [{ ...ball, ...change }] })).toThrow(TraceValidationError)
+  })
+
+  it('caps the number of balls', () => {
+    const balls = Array.from({ length: MAX_BALLS + 1 }, () => ball)
+    expect(() => parseTrace({ ...recordedTrace(), balls })).toThrow(TraceValidationError)
+  })
+})
@@ -0,0 +1,319 @@
+// Session recording and deterministic replay.
+// A trace stores the starting balls, settings, arena, screen scale and painted surfaces plus one entry per
+// animation frame: how many fixed physics steps ran and the tilt fed into them.
+// Replaying those steps through the same engine reproduces the run exactly.
+
+import {
+  accelerationForTilt,
+  ArenaBounds,
+  ArenaLayout,
+  Ball,
+  CollisionEvent,
+  createZones,
+  FIXED_TIMESTEP_MS,
+  MAX_BALLS,
+  MAX_STEPS_PER_ADVANCE,
+  PhysicsState,
+  stepPhysics,
+  Vector
+} from './physics'
+import { physicsParamsForSettings, Settings, validateSettings } from './settings'
+import { parseSurfaces, SurfaceDefinition } from './surfaces'
+
+// Version 1 traces were recorded with the old unitless physics and can't be reproduced
+export const TRACE_VERSION = 2
+
+// Tilt is stored in thousandths of g so frames serialize as small integers
+const TILT_PRECISION = 1000
+// Every input source clamps tilt to ±1g on each axis
+const MAX_STORED_TILT = TILT_PRECISION
+const VALUES_PER_FRAME = 3
+// Snapshot interval that keeps scrubbing fast on long traces
+const KEYFRAME_INTERVAL = 120
+const STORAGE_KEY = 'fidgetball:replays'
+const MAX_SAVED_TRACES = 5
+
+export interface MotionTrace {
+  version: typeof TRACE_VERSION
+  recordedAt: number // Epoch milliseconds
+  settings: Settings
+  arena: ArenaBounds
+  pixelsPerMetre: number // The recording screen's scale, which the physics depends on
+  levelId: string | null
+  surfaces: SurfaceDefinition[]
+  balls: Ball[]
+  // Flattened [steps, tiltX, tiltY] per frame, tilt in thousandths of g
+  frames: number[]
+}
+
+export interface TraceFrame {
+  steps: number
+  tilt: Vector
+}
+
+export class TraceValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TraceValidationError'
+  }
+}
+
+// Round tilt to the stored precision; live play must use the same values it records
+export function quantizeTilt(tilt: Vector): Vector {
+  return {
+    x: Math.round(tilt.x * TILT_PRECISION) / TILT_PRECISION,
+    y: Math.round(tilt.y * TILT_PRECISION) / TILT_PRECISION
+  }
+}
+
+export const traceFrameCount = (trace: MotionTrace) => trace.frames.length / VALUES_PER_FRAME
+
+export function traceFrame(trace: MotionTrace, index: number): TraceFrame {
+  const offset = index * VALUES_PER_FRAME
+  return {
+    steps: trace.frames[offset],
+    tilt: {
+      x: trace.frames[offset + 1] / TILT_PRECISION,
+      y: trace.frames[offset + 2] / TILT_PRECISION
+    }
+  }
+}
+
+export function traceDurationMs(trace: MotionTrace): number {
+  let steps = 0
+  for (let i = 0; i < trace.frames.length; i += VALUES_PER_FRAME) {
+    steps += trace.frames[i]
+  }
+  return steps * FIXED_TIMESTEP_MS
+}
+
+export function createRecorder(start: Omit<MotionTrace, 'version' | 'recordedAt' | 'frames'>) {
+  const recordedAt = Date.now()
+  const frames: number[] = []
+
+  return {
+    // Frames where no physics step ran change nothing and are skipped
+    record(steps: number, tilt: Vector) {
+      if (steps === 0) return
+      frames.push(steps, Math.round(tilt.x * TILT_PRECISION), Math.round(tilt.y * TILT_PRECISION))
+    },
+    durationMs(): number {
+      return traceDurationMs({ ...start, version: TRACE_VERSION, recordedAt, frames })
+    },
+    finish(): MotionTrace {
+      return {
+        version: TRACE_VERSION,
+        recordedAt,
+        settings: start.settings,
+        arena: start.arena,
+        pixelsPerMetre: start.pixelsPerMetre,
+        levelId: start.levelId,
+        surfaces: start.surfaces,
+        balls: start.balls.map(ball => ({ ...ball })),
+        frames: [...frames]
+      }
+    }
+  }
+}
+
+export type Recorder = ReturnType<typeof createRecorder>
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function parseBall(value: unknown, index: number): Ball {
+  const ball = value as Record<string, unknown>
+  const fields = ['x', 'y', 'vx', 'vy', 'radius', 'mass'] as const
+  if (typeof ball !== 'object' || ball === null || fields.some(field => !isFiniteNumber(ball[field]))) {
+    throw new TraceValidationError(`balls[${index}] is not a valid ball`)
+  }
+  // Mass and radius are divided by, so zero or less would turn the whole replay into NaN
+  if ((ball.radius as number) <= 0 || (ball.mass as number) <= 0) {
+    throw new TraceValidationError(`balls[${index}] must have a positive radius and mass`)
+  }
+  return {
+    x: ball.x as number,
+    y: ball.y as number,
+    vx: ball.vx as number,
+    vy: ball.vy as number,
+    spin: isFiniteNumber(ball.spin) ? ball.spin : 0,
+    radius: ball.radius as number,
+    color: typeof ball.color === 'string' ? ball.color : '#ff6b6b',
+    mass: ball.mass as number
+  }
+}
+
+// Validate an imported trace file
+export function parseTrace(data: unknown): MotionTrace {
+  if (typeof data !== 'object' || data === null) throw new TraceValidationError('trace must be an object')
+  const trace = data as Record<string, unknown>
+
+  if (trace.version !== TRACE_VERSION) {
+    throw new TraceValidationError(`unsupported trace version, expected ${TRACE_VERSION}`)
+  }
+
+  const arena = trace.arena as Record<string, unknown> | null
+  if (!arena || !isFiniteNumber(arena.width) || !isFiniteNumber(arena.height) || arena.width <= 0 || arena.height <= 0) {
+    throw new TraceValidationError('arena must have a positive width and height')
+  }
+
+  if (!isFiniteNumber(trace.pixelsPerMetre) || trace.pixelsPerMetre <= 0) {
+    throw new TraceValidationError('pixelsPerMetre must be a positive number')
+  }
+
+  if (!Array.isArray(trace.balls) || trace.balls.length === 0) {
+    throw new TraceValidationError('trace must contain at least one ball')
+  }
+  if (trace.balls.length > MAX_BALLS) {
+    throw new TraceValidationError(`trace must contain at most ${MAX_BALLS} balls`)
+  }
+
+  const frames = trace.frames
+  if (!Array.isArray(frames) || frames.length % VALUES_PER_FRAME !== 0 || !frames.every(Number.isInteger)) {
+    throw new TraceValidationError(`frames must be a flat list of integer [steps, x, y] triples`)
+  }
+  // The recorder skips frames without steps and the engine never runs more than MAX_STEPS_PER_ADVANCE
+  // in one; a bigger count would lock up the tab while it replays
+  for (let i = 0; i < frames.length; i += VALUES_PER_FRAME) {
+    const frame = i / VALUES_PER_FRAME
+    if (frames[i] < 1 || frames[i] > MAX_STEPS_PER_ADVANCE) {
+      throw new TraceValidationError(`frames[${frame}] must run between 1 and ${MAX_STEPS_PER_ADVANCE} steps`)
+    }
+    if (Math.abs(frames[i + 1]) > MAX_STORED_TILT || Math.abs(frames[i + 2]) > MAX_STORED_TILT) {
+      throw new TraceValidationError(`frames[${frame}] tilt must be within ±${MAX_STORED_TILT}`)
+    }
+  }
+
+  return {
+    version: TRACE_VERSION,
+    recordedAt: isFiniteNumber(trace.recordedAt) ? trace.recordedAt : 0,
+    settings: validateSettings(trace.settings),
+    arena: { width: arena.width, height: arena.height },
+    pixelsPerMetre: trace.pixelsPerMetre,
+    levelId: typeof trace.levelId === 'string' ? trace.levelId : null,
+    // Traces from before the editor have none
+    surfaces: parseSurfaces(trace.surfaces),
+    balls: trace.balls.map(parseBall),
+    frames: frames as number[]
+  }
+}
+
+export function initialReplayState(trace: MotionTrace): PhysicsState {
+  return {
+    balls: trace.balls.map(ball => ({ ...ball })),
+    zones: trace.balls.map(() => createZones()),
+    goals: trace.balls.map(() => null)
+  }
+}
+
+// Drives the physics from a trace instead of live input. `layout` must be the trace's level and surfaces resolved at trace.arena.
+export function createReplayPlayer(trace: MotionTrace, layout: ArenaLayout) {
+  const params = physicsParamsForSettings(trace.settings, trace.pixelsPerMetre)
+  const frameCount = traceFrameCount(trace)
+  const keyframes = new Map<number, PhysicsState>([[0, initialReplayState(trace)]])
+
+  let position = 0
+  let state = initialReplayState(trace)
+  let pendingMs = 0
+
+  const applyFrame = (index: number, events: CollisionEvent[]) => {
+    const frame = traceFrame(trace, index)
+    for (let step = 0; step < frame.steps; step++) {
+      const result = stepPhysics(state, accelerationForTilt(frame.tilt, params), trace.arena, params, layout)
+      state = result.state
+      events.push(...result.events)
+    }
+    position = index + 1
+    if (position % KEYFRAME_INTERVAL === 0 && !keyframes.has(position)) {
+      keyframes.set(position, state)
+    }
+  }
+
+  return {
+    trace,
+    layout,
+    frameCount,
+    durationMs: traceDurationMs(trace),
+    get position() {
+      return position
+    },
+    get state() {
+      return state
+    },
+    get finished() {
+      return position >= frameCount
+    },
+    // Jump to a frame by re-simulating from the nearest earlier snapshot
+    seek(frame: number) {
+      const target = Math.max(0, Math.min(frameCount, Math.round(frame)))
+      let start = Math.floor(target / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL
+      while (!keyframes.has(start)) start -= KEYFRAME_INTERVAL
+      state = keyframes.get(start)!
+      position = start
+      pendingMs = 0
+      const ignored: CollisionEvent[] = []
+      while (position < target) applyFrame(position, ignored)
+    },
+    // Play frames in real time, returning their collision events for feedback
+    advance(elapsedMs: number): CollisionEvent[] {
+      const events: CollisionEvent[] = []
+      pendingMs += elapsedMs
+      while (position < frameCount) {
+        const frameMs = traceFrame(trace, position).steps * FIXED_TIMESTEP_MS
+        if (pendingMs < frameMs) break
+        pendingMs -= frameMs
+        applyFrame(position, events)
+      }
+      if (position >= frameCount) pendingMs = 0
+      return events
+    },
+    // Wall-clock time of the current position
+    elapsedMs(): number {
+      let steps = 0
+      for (let i = 0; i < position; i++) steps += trace.frames[i * VALUES_PER_FRAME]
+      return steps * FIXED_TIMESTEP_MS
+    }
+  }
+}
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>
+
+export function loadSavedTraces(): MotionTrace[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return []
+    return parsed.flatMap(item => {
+      try {
+        return [parseTrace(item)]
+      } catch {
+        return []
+      }
+    })
+  } catch (error) {
+    console.log('Saved replays could not be loaded:', error)
+    return []
+  }
+}
+
+// Newest first, keeping only the most recent few
+export function saveTrace(trace: MotionTrace): MotionTrace[] {
+  const traces = [trace, ...loadSavedTraces().filter(saved => saved.recordedAt !== trace.recordedAt)]
+    .slice(0, MAX_SAVED_TRACES)
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(traces))
+  } catch (error) {
+    console.log('Replay could not be saved:', error)
+  }
+  return traces
+}
+
+export function exportTraceFile(trace: MotionTrace) {
+  const blob = new Blob([JSON.stringify(trace)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `fidgetball-${new Date(trace.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,95 @@
+// How each ball is turned, for drawing. The physics only tracks spin about the
+// vertical axis; a ball rolling without slipping turns about the other two at
+// its speed over its radius, so the renderer integrates the full rotation here
+// and draws a seam (a great circle on the ball) that rolls and spins with it.
+// Axes are x right, y down and z into the screen, towards the glass the ball
+// rolls on, so the half of the ball facing the player is z < 0.
+
+import { Ball, FIXED_TIMESTEP_MS } from './physics'
+
+export interface Vector3 {
+  x: number
+  y: number
+  z: number
+}
+
+const SEAM_SEGMENTS = 32
+
+const normalize = (v: Vector3): Vector3 => {
+  const length = Math.hypot(v.x, v.y, v.z) || 1
+  return { x: v.x / length, y: v.y / length, z: v.z / length }
+}
+
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+})
+
+// Rodrigues' rotation of `v` about the unit `axis`
+function rotate(v: Vector3, axis: Vector3, angle: number): Vector3 {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const turned = cross(axis, v)
+  const along = (axis.x * v.x + axis.y * v.y + axis.z * v.z) * (1 - cos)
+  return {
+    x: v.x * cos + turned.x * sin + axis.x * along,
+    y: v.y * cos + turned.y * sin + axis.y * along,
+    z: v.z * cos + turned.z * sin + axis.z * along
+  }
+}
+
+// Tilted a little differently per ball, so a fresh pile doesn't look identical
+const initialSeam = (index: number): Vector3 => normalize({ x: Math.cos(index * 2.4), y: Math.sin(index * 2.4), z: -1.5 })
+
+export function createBallOrientations() {
+  // Each ball's seam as the normal of its great circle
+  let seams: Vector3[] = []
+
+  return {
+    // Turn every ball by how far it rolled and spun in `elapsedMs`
+    update(balls: Ball[], elapsedMs: number) {
+      const steps = elapsedMs / FIXED_TIMESTEP_MS
+      seams = balls.map((ball, index) => {
+        const seam = seams[index] ?? initialSeam(index)
+        // Rolling: the contact point with the glass stays still
+        const omega = { x: ball.vy / ball.radius, y: -ball.vx / ball.radius, z: ball.spin }
+        const rate = Math.hypot(omega.x, omega.y, omega.z)
+        if (rate === 0 || steps <= 0) return seam
+        return normalize(rotate(seam, { x: omega.x / rate, y: omega.y / rate, z: omega.z / rate }, rate * steps))
+      })
+    },
+    seam(index: number): Vector3 | null {
+      return seams[index] ?? null
+    },
+    reset() {
+      seams = []
+    }
+  }
+}
+
+export type BallOrientations = ReturnType<typeof createBallOrientations>
+
+// Trace the visible half of the seam on a ball centred at (x, y)
+export function traceSeam(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, seam: Vector3) {
+  // Two unit vectors spanning the seam's plane
+  const helper = Math.abs(seam.z) < 0.9 ? { x: 0, y: 0, z: 1 } : { x: 1, y: 0, z: 0 }
+  const u = normalize(cross(seam, helper))
+  const w = cross(seam, u)
+
+  ctx.beginPath()
+  let drawing = false
+  for (let i = 0; i <= SEAM_SEGMENTS; i++) {
+    const t = (i / SEAM_SEGMENTS) * Math.PI * 2
+    const px = u.x * Math.cos(t) + w.x * Math.sin(t)
+    const py = u.y * Math.cos(t) + w.y * Math.sin(t)
+    const pz = u.z * Math.cos(t) + w.z * Math.sin(t)
+    if (pz > 0) {
+      drawing = false
+      continue
+    }
+    if (drawing) ctx.lineTo(x + px * radius, y + py * radius)
+    else ctx.moveTo(x + px * radius, y + py * radius)
+    drawing = true
+  }
+}
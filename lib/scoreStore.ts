@@ -0,0 +1,44 @@
+// Server-side persistence for leaderboard entries. Route handlers only talk to
+// the ScoreStore interface, so a database can replace the JSON file without
+// touching them. The file store suits a single long-running server.
+
+import path from 'path'
+import { createJsonFile } from './jsonFile'
+import { LeaderboardMode, ScoreEntry } from './leaderboard'
+
+export interface ScoreQuery {
+  mode: LeaderboardMode
+  since: number // Epoch milliseconds; 0 for all time
+}
+
+export interface ScoreStore {
+  add(entry: ScoreEntry): Promise<void>
+  list(query: ScoreQuery): Promise<ScoreEntry[]>
+}
+
+// Every entry in one JSON array
+export function createJsonFileScoreStore(file: string): ScoreStore {
+  const document = createJsonFile<ScoreEntry[]>(
+    file,
+    data => (Array.isArray(data) ? (data as ScoreEntry[]) : []),
+    () => []
+  )
+
+  return {
+    add: async (entry) => {
+      await document.update(entries => [...entries, entry])
+    },
+    list: async (query) =>
+      (await document.read()).filter(entry => entry.mode === query.mode && entry.submittedAt >= query.since)
+  }
+}
+
+let store: ScoreStore | null = null
+
+// One store per server process; SCORES_FILE moves the file (default .data/scores.json)
+export function getScoreStore(): ScoreStore {
+  if (!store) {
+    store = createJsonFileScoreStore(process.env.SCORES_FILE || path.join(process.cwd(), '.data', 'scores.json'))
+  }
+  return store
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeSettingsQuery,
+  DEFAULT_SETTINGS,
+  encodeSettingsQuery,
+  physicsParamsForSettings,
+  SETTINGS_PRESETS,
+  validateSettings
+} from './settings'
+
+describe('settings query', () => {
+  it('round-trips every setting', () => {
+    const settings = { ...DEFAULT_SETTINGS, rollingResistance: 7, ballKind: 'steel' as const, muted: true }
+    expect(decodeSettingsQuery(encodeSettingsQuery(settings))).toEqual(settings)
+  })
+
+  it('reads the old gravity parameter as rolling resistance', () => {
+    expect(decodeSettingsQuery('gravity=5')).toEqual({ rollingResistance: 5 })
+  })
+
+  it('prefers the current parameter over the old one', () => {
+    expect(decodeSettingsQuery('gravity=5&roll=9')).toEqual({ rollingResistance: 9 })
+  })
+})
+
+describe('validateSettings', () => {
+  it('migrates stored gravity to rolling resistance', () => {
+    expect(validateSettings({ gravity: 12 }).rollingResistance).toBe(12)
+  })
+
+  it('migrates the old haptics switch', () => {
+    expect(validateSettings({ useHaptics: true }).feedback).toBe('haptics')
+  })
+})
+
+describe('SETTINGS_PRESETS', () => {
+  it('keeps Pinball, Moon and Molasses', () => {
+    expect(SETTINGS_PRESETS.map(preset => preset.name)).toEqual(expect.arrayContaining(['Pinball', 'Moon', 'Molasses']))
+  })
+
+  it('gives the same physics whatever was chosen before', () => {
+    const after = (previous: typeof DEFAULT_SETTINGS) =>
+      SETTINGS_PRESETS.map(preset => {
+        const settings = { ...previous, ...preset.settings }
+        return { ballSize: settings.ballSize, params: physicsParamsForSettings(settings) }
+      })
+    const pinball = SETTINGS_PRESETS.find(preset => preset.id === 'pinball')!
+    expect(after({ ...DEFAULT_SETTINGS, ...pinball.settings })).toEqual(after(DEFAULT_SETTINGS))
+  })
+})
@@ -0,0 +1,305 @@
+// Player settings: typed schema with defaults and ranges, localStorage
+// persistence, named presets and a URL query encoding for shareable links.
+
+import { BALL_KIND_IDS, BALL_KINDS, BallKind, DEFAULT_PHYSICS_PARAMS, DEFAULT_PIXELS_PER_METRE, PhysicsParams } from './physics'
+import { ARENA_SHAPE_IDS, ArenaShapeId } from './arena'
+import { AudioSettings } from './audio'
+import { EffectsSettings } from './effects'
+import { THEME_SETTINGS, ThemeSetting } from './themes'
+
+export interface Settings {
+  bounciness: number // Velocity retained on a wall bounce
+  rollingResistance: number // 0-20 slider scale, see rollingResistanceForSetting
+  ballKind: BallKind
+  ballSize: number   // Diameter in mm
+  audioPitch: number // Hz, base pitch of the audio engine
+  masterVolume: number // 0-1
+  muted: boolean
+  ballColor: string  // #rrggbb
+  feedback: FeedbackMode
+  theme: ThemeSetting
+  arena: ArenaShapeId
+  trails: boolean
+  squash: boolean
+  particles: boolean
+  reducedEffects: ReducedEffectsMode
+}
+
+// Which channels respond to impacts
+export type FeedbackMode = 'audio' | 'haptics' | 'both'
+
+// 'system' turns the motion effects off when the OS asks for reduced motion
+export type ReducedEffectsMode = 'system' | 'on' | 'off'
+
+interface NumberField {
+  type: 'number'
+  param: string // URL query parameter name
+  min: number
+  max: number
+  step: number
+  default: number
+}
+
+interface ColorField {
+  type: 'color'
+  param: string
+  default: string
+}
+
+interface BooleanField {
+  type: 'boolean'
+  param: string
+  default: boolean
+}
+
+interface ChoiceField<T extends string> {
+  type: 'choice'
+  param: string
+  options: readonly T[]
+  default: T
+}
+
+// Plain strings are colours; string unions are choices
+type FieldFor<T> = [T] extends [number]
+  ? NumberField
+  : [T] extends [boolean]
+    ? BooleanField
+    : string extends T
+      ? ColorField
+      : ChoiceField<Extract<T, string>>
+
+export type SettingsSchema = { [K in keyof Settings]: FieldFor<Settings[K]> }
+
+export const SETTINGS_SCHEMA: SettingsSchema = {
+  bounciness: { type: 'number', param: 'bounce', min: 0.1, max: 0.98, step: 0.02, default: 0.9 },
+  rollingResistance: { type: 'number', param: 'roll', min: 0, max: 20, step: 1, default: 1 },
+  ballKind: { type: 'choice', param: 'ball', options: BALL_KIND_IDS, default: 'marble' },
+  ballSize: { type: 'number', param: 'size', min: 2, max: 25, step: 1, default: 4 },
+  audioPitch: { type: 'number', param: 'pitch', min: 200, max: 2000, step: 50, default: 800 },
+  masterVolume: { type: 'number', param: 'volume', min: 0, max: 1, step: 0.05, default: 0.7 },
+  muted: { type: 'boolean', param: 'mute', default: false },
+  ballColor: { type: 'color', param: 'color', default: '#ff6b6b' },
+  feedback: { type: 'choice', param: 'feedback', options: ['audio', 'haptics', 'both'], default: 'audio' },
+  theme: { type: 'choice', param: 'theme', options: THEME_SETTINGS, default: 'auto' },
+  arena: { type: 'choice', param: 'arena', options: ARENA_SHAPE_IDS, default: 'rect' },
+  trails: { type: 'boolean', param: 'trails', default: true },
+  squash: { type: 'boolean', param: 'squash', default: true },
+  particles: { type: 'boolean', param: 'particles', default: true },
+  reducedEffects: { type: 'choice', param: 'reduce', options: ['system', 'on', 'off'], default: 'system' }
+}
+
+const SETTINGS_KEYS = Object.keys(SETTINGS_SCHEMA) as Array<keyof Settings>
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+  SETTINGS_KEYS.map(key => [key, SETTINGS_SCHEMA[key].default])
+) as unknown as Settings
+
+// The 0-20 slider scales the ball's rolling resistance on glass:
+// 1 is the real thing, every 3 steps doubles it, so 20 drags the ball to a stop
+export function rollingResistanceForSetting(setting: number, kind: BallKind): number {
+  return BALL_KINDS[kind].rollingResistance * Math.pow(2, (setting - 1) / 3)
+}
+
+export function physicsParamsForSettings(settings: Settings, pixelsPerMetre: number = DEFAULT_PIXELS_PER_METRE): PhysicsParams {
+  const kind = BALL_KINDS[settings.ballKind]
+  return {
+    ...DEFAULT_PHYSICS_PARAMS,
+    pixelsPerMetre,
+    rollingResistance: rollingResistanceForSetting(settings.rollingResistance, settings.ballKind),
+    bounceDamping: settings.bounciness,
+    wallFriction: kind.wallFriction,
+    spinDecay: kind.spinDecay
+  }
+}
+
+export function audioSettingsForSettings(settings: Settings): AudioSettings {
+  return {
+    basePitch: settings.audioPitch,
+    volume: settings.masterVolume,
+    muted: settings.muted
+  }
+}
+
+export function effectsSettingsForSettings(settings: Settings, prefersReducedMotion: boolean): EffectsSettings {
+  const reduced = settings.reducedEffects === 'on' || (settings.reducedEffects === 'system' && prefersReducedMotion)
+  return {
+    trails: settings.trails && !reduced,
+    squash: settings.squash && !reduced,
+    particles: settings.particles && !reduced
+  }
+}
+
+// A preset sets the whole ball and how it moves, so picking one always gives the same
+// physics whatever was chosen before; sound and look settings are optional
+type PresetSettings = Pick<Settings, 'ballKind' | 'ballSize' | 'bounciness' | 'rollingResistance'> & Partial<Settings>
+
+export interface SettingsPreset {
+  id: string
+  name: string
+  settings: PresetSettings
+}
+
+export const SETTINGS_PRESETS: SettingsPreset[] = [
+  // The biggest steel ball there is, off springy walls
+  {
+    id: 'pinball',
+    name: 'Pinball',
+    settings: { ballKind: 'steel', ballSize: 25, bounciness: 0.98, rollingResistance: 1, audioPitch: 1400 }
+  },
+  // Floaty: barely anything slows the ball, and walls give a soft rebound
+  {
+    id: 'moon',
+    name: 'Moon',
+    settings: { ballKind: 'marble', ballSize: 4, bounciness: 0.7, rollingResistance: 0, audioPitch: 400 }
+  },
+  // A puck-sized ball gliding on air off lively rails
+  {
+    id: 'airHockey',
+    name: 'Air Hockey',
+    settings: { ballKind: 'marble', ballSize: 25, bounciness: 0.9, rollingResistance: 0, audioPitch: 600 }
+  },
+  {
+    id: 'molasses',
+    name: 'Molasses',
+    settings: { ballKind: 'marble', ballSize: 4, bounciness: 0.1, rollingResistance: 20, audioPitch: 250 }
+  },
+  // A standard 16mm glass marble and an 8mm bearing, both at their real rolling resistance
+  {
+    id: 'marble',
+    name: 'Marble',
+    settings: { ballKind: 'marble', ballSize: 16, bounciness: 0.76, rollingResistance: 1, audioPitch: 1000 }
+  },
+  {
+    id: 'steel',
+    name: 'Steel Ball',
+    settings: { ballKind: 'steel', ballSize: 8, bounciness: 0.6, rollingResistance: 1, audioPitch: 1600 }
+  }
+]
+
+const STORAGE_KEY = 'fidgetball:settings'
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+const snapToStep = (value: number, field: NumberField) => {
+  const snapped = field.min + Math.round((value - field.min) / field.step) * field.step
+  // Trim floating point noise from the step arithmetic
+  return Math.min(field.max, Math.max(field.min, Number(snapped.toFixed(6))))
+}
+
+// Coerce one untrusted value into a field, or return undefined if it can't be used
+function parseField<K extends keyof Settings>(key: K, value: unknown): Settings[K] | undefined {
+  const field = SETTINGS_SCHEMA[key]
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined
+      return snapToStep(number, field) as Settings[K]
+    }
+    case 'color': {
+      if (typeof value !== 'string') return undefined
+      const color = value.startsWith('#') ? value : `#${value}`
+      return COLOR_PATTERN.test(color) ? (color.toLowerCase() as Settings[K]) : undefined
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value as Settings[K]
+      if (value === '1' || value === 'true') return true as Settings[K]
+      if (value === '0' || value === 'false') return false as Settings[K]
+      return undefined
+    case 'choice':
+      return (field.options as readonly unknown[]).includes(value) ? (value as Settings[K]) : undefined
+  }
+}
+
+// Keep only the fields that validate
+export function parsePartialSettings(value: unknown): Partial<Settings> {
+  if (typeof value !== 'object' || value === null) return {}
+  const source = value as Record<string, unknown>
+  const result: Partial<Settings> = {}
+  for (const key of SETTINGS_KEYS) {
+    const parsed = parseField(key, source[key])
+    if (parsed !== undefined) {
+      (result as Record<keyof Settings, unknown>)[key] = parsed
+    }
+  }
+  return result
+}
+
+// Settings saved before the feedback mode existed had a single haptics on/off switch, and
+// rolling resistance used to be stored as gravity (which traces recorded with it still carry)
+function migrateSettings(stored: unknown): unknown {
+  if (typeof stored !== 'object' || stored === null) return stored
+  let migrated = stored as Record<string, unknown>
+  if ('useHaptics' in migrated && !('feedback' in migrated)) {
+    const { useHaptics, ...rest } = migrated
+    migrated = { ...rest, feedback: useHaptics === true ? 'haptics' : 'audio' }
+  }
+  if ('gravity' in migrated && !('rollingResistance' in migrated)) {
+    const { gravity, ...rest } = migrated
+    migrated = { ...rest, rollingResistance: gravity }
+  }
+  return migrated
+}
+
+// Fill anything missing or invalid with its default
+export function validateSettings(value: unknown): Settings {
+  return { ...DEFAULT_SETTINGS, ...parsePartialSettings(migrateSettings(value)) }
+}
+
+export function loadSettings(): Settings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return validateSettings(stored ? JSON.parse(stored) : null)
+  } catch (error) {
+    // Private browsing and sandboxed iframes can block storage
+    console.log('Settings could not be loaded:', error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.log('Settings could not be saved:', error)
+  }
+}
+
+export function encodeSettingsQuery(settings: Settings): string {
+  const params = new URLSearchParams()
+  for (const key of SETTINGS_KEYS) {
+    const field = SETTINGS_SCHEMA[key]
+    const value = settings[key]
+    if (field.type === 'boolean') {
+      params.set(field.param, value ? '1' : '0')
+    } else if (field.type === 'color') {
+      params.set(field.param, String(value).replace('#', ''))
+    } else if (field.type === 'choice') {
+      params.set(field.param, String(value))
+    } else {
+      params.set(field.param, String(value))
+    }
+  }
+  return params.toString()
+}
+
+// Older links used these names for parameters that have since been renamed
+const LEGACY_PARAMS: Partial<Record<keyof Settings, string>> = {
+  rollingResistance: 'gravity'
+}
+
+// Only the parameters present (and valid) in the query are returned
+export function decodeSettingsQuery(query: string): Partial<Settings> {
+  const params = new URLSearchParams(query)
+  const raw: Record<string, string> = {}
+  for (const key of SETTINGS_KEYS) {
+    const legacy = LEGACY_PARAMS[key]
+    const value = params.get(SETTINGS_SCHEMA[key].param) ?? (legacy ? params.get(legacy) : null)
+    if (value !== null) raw[key] = value
+  }
+  return parsePartialSettings(raw)
+}
+
+// A shared link wins over whatever was stored on this device
+export function resolveInitialSettings(query: string): Settings {
+  return { ...loadSettings(), ...decodeSettingsQuery(query) }
+}
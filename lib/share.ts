@@ -0,0 +1,111 @@
+// Sharing a run: a cast through the Farcaster composer when the host supports
+// it, otherwise the Web Share API, otherwise the clipboard. Shared links carry
+// the player's settings, level and score so their preview image matches.
+
+import { sdk } from '@farcaster/frame-sdk'
+import { ChallengeResult } from './challenge'
+import { encodeSettingsQuery, Settings } from './settings'
+import { withTimeout } from './timeout'
+
+export const COMPOSE_CAST_CAPABILITY = 'actions.composeCast'
+
+export type ShareOutcome = 'cast' | 'shared' | 'copied' | 'cancelled' | 'failed'
+
+export interface ShareRequest {
+  text: string
+  url: string
+  snapshot: Blob | null
+  canComposeCast: boolean
+}
+
+const UPLOAD_TIMEOUT_MS = 5000
+
+export function shareUrl(origin: string, settings: Settings, levelId: string | null, score: number | null): string {
+  const query = new URLSearchParams(encodeSettingsQuery(settings))
+  if (levelId) query.set('level', levelId)
+  if (score !== null) query.set('score', String(score))
+  return `${origin}/?${query}`
+}
+
+export function shareText(result: ChallengeResult | null): string {
+  if (!result) return 'Rolling around in FidgetBall 🎱'
+  const combo = result.bestCombo > 1 ? ` with a x${result.bestCombo} combo` : ''
+  return `I scored ${result.score} in FidgetBall${combo}! Can you beat it?`
+}
+
+export function canvasSnapshot(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(blob => resolve(blob), 'image/png')
+    } catch (error) {
+      console.log('Canvas snapshot failed:', error)
+      resolve(null)
+    }
+  })
+}
+
+// Casts can only embed URLs, so the snapshot is hosted by the app first
+async function uploadSnapshot(snapshot: Blob): Promise<string | null> {
+  try {
+    const response = await withTimeout(
+      fetch('/api/snapshots', { method: 'POST', headers: { 'Content-Type': 'image/png' }, body: snapshot }),
+      UPLOAD_TIMEOUT_MS,
+      'Snapshot upload timeout'
+    )
+    if (!response.ok) throw new Error(`Snapshot upload failed: ${response.status}`)
+    const { url } = await response.json()
+    return typeof url === 'string' ? url : null
+  } catch (error) {
+    // The link's own preview image still shows the score
+    console.log('Snapshot upload failed:', error)
+    return null
+  }
+}
+
+async function composeCast(request: ShareRequest): Promise<ShareOutcome> {
+  const imageUrl = request.snapshot ? await uploadSnapshot(request.snapshot) : null
+  // No timeout here: the call only resolves once the player closes the composer
+  const result = await sdk.actions.composeCast({
+    text: request.text,
+    embeds: imageUrl ? [request.url, imageUrl] : [request.url]
+  })
+  return result?.cast ? 'cast' : 'cancelled'
+}
+
+async function webShare(request: ShareRequest): Promise<ShareOutcome> {
+  const files = request.snapshot ? [new File([request.snapshot], 'fidgetball.png', { type: 'image/png' })] : []
+  const data: ShareData = { text: request.text, url: request.url }
+  if (files.length > 0 && navigator.canShare?.({ files })) {
+    data.files = files
+  }
+  await navigator.share(data)
+  return 'shared'
+}
+
+export async function shareRun(request: ShareRequest): Promise<ShareOutcome> {
+  if (request.canComposeCast) {
+    try {
+      return await composeCast(request)
+    } catch (error) {
+      // Fall back to the browser if the host rejects the cast
+      console.log('Compose cast failed:', error)
+    }
+  }
+
+  if (typeof navigator.share === 'function') {
+    try {
+      return await webShare(request)
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled'
+      console.log('Web Share failed:', error)
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(`${request.text} ${request.url}`)
+    return 'copied'
+  } catch (error) {
+    console.log('Clipboard not available:', error)
+    return 'failed'
+  }
+}
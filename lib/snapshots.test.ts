@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_SNAPSHOT_BYTES, readSnapshotUpload, SnapshotTooLargeError } from './snapshots'
+
+// A body arriving in `chunks` pieces of `size` bytes, counting how many were pulled
+function streamOf(chunks: number, size: number) {
+  let pulled = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === chunks) {
+        controller.close()
+        return
+      }
+      pulled++
+      controller.enqueue(new Uint8Array(size).fill(pulled))
+    }
+  })
+  return { body, pulled: () => pulled }
+}
+
+describe('readSnapshotUpload', () => {
+  it('joins the chunks of a body under the cap', async () => {
+    const { body } = streamOf(3, 4)
+    expect(Array.from(await readSnapshotUpload(body))).toEqual([1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3])
+  })
+
+  it('reads an empty body as no bytes', async () => {
+    expect(await readSnapshotUpload(null)).toHaveLength(0)
+  })
+
+  it('stops reading as soon as the body passes the cap', async () => {
+    const chunkSize = 256 * 1024
+    const stream = streamOf(100, chunkSize)
+    await expect(readSnapshotUpload(stream.body)).rejects.toBeInstanceOf(SnapshotTooLargeError)
+    expect(stream.pulled()).toBeLessThanOrEqual(MAX_SNAPSHOT_BYTES / chunkSize + 2)
+  })
+})
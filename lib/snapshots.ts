@@ -0,0 +1,77 @@
+// Server-side store for canvas snapshots attached to shared casts. Casts can
+// only embed URLs, so the client uploads the PNG here and embeds the link.
+// Files live under SNAPSHOT_DIR (default .data/snapshots).
+
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+
+export const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotError'
+  }
+}
+
+export class SnapshotTooLargeError extends SnapshotError {
+  constructor() {
+    super('snapshot is too large')
+    this.name = 'SnapshotTooLargeError'
+  }
+}
+
+const snapshotDir = () => process.env.SNAPSHOT_DIR || path.join(process.cwd(), '.data', 'snapshots')
+
+export const isPng = (data: Uint8Array) => PNG_SIGNATURE.every((byte, i) => data[i] === byte)
+
+// Read an upload without trusting Content-Length, giving up as soon as it passes the cap
+export async function readSnapshotUpload(body: ReadableStream<Uint8Array> | null): Promise<Uint8Array> {
+  if (!body) return new Uint8Array()
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    length += value.length
+    if (length > MAX_SNAPSHOT_BYTES) {
+      await reader.cancel()
+      throw new SnapshotTooLargeError()
+    }
+    chunks.push(value)
+  }
+
+  const data = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.length
+  }
+  return data
+}
+
+export async function saveSnapshot(data: Uint8Array): Promise<string> {
+  if (data.length > MAX_SNAPSHOT_BYTES) throw new SnapshotTooLargeError()
+  if (!isPng(data)) throw new SnapshotError('snapshot must be a PNG')
+
+  const id = randomUUID()
+  const dir = snapshotDir()
+  await mkdir(dir, { recursive: true })
+  await writeFile(path.join(dir, `${id}.png`), data)
+  return id
+}
+
+// Ids are checked against the UUID format, so a request can't read outside the directory
+export async function readSnapshot(id: string): Promise<Buffer | null> {
+  if (!ID_PATTERN.test(id)) return null
+  try {
+    return await readFile(path.join(snapshotDir(), `${id}.png`))
+  } catch {
+    return null
+  }
+}
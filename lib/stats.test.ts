@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { Ball, createZones, DEFAULT_PHYSICS_PARAMS, FIXED_TIMESTEP_MS } from './physics'
+import { createStatsTracker, emptyStats, lifetimeTotals, MAX_DEVICES, mergeStats, parseStats, StatsValidationError } from './stats'
+
+const PHONE = '00000000-0000-4000-8000-000000000001'
+const TABLET = '00000000-0000-4000-8000-000000000002'
+
+const ball: Ball = { x: 200, y: 200, vx: 1, vy: 0, radius: 20, mass: 0.01, color: '#fff', spin: 0 }
+
+// A second of calm rolling on one device
+function playOn(deviceId: string) {
+  const tracker = createStatsTracker(emptyStats(deviceId))
+  for (let i = 0; i < 60; i++) {
+    tracker.record({ balls: [ball], zones: [createZones()], events: [] }, FIXED_TIMESTEP_MS, DEFAULT_PHYSICS_PARAMS, 1000 + i)
+  }
+  return tracker
+}
+
+describe('stats sync', () => {
+  it('adds up play on two devices', () => {
+    const phone = playOn(PHONE)
+    const tablet = playOn(TABLET)
+    const server = mergeStats(phone.stats, tablet.stats)
+
+    phone.merge(server)
+    expect(phone.lifetime.playedMs).toBeCloseTo(2000)
+    expect(phone.lifetime.distance).toBeCloseTo(tablet.session.distance * 2)
+    expect(phone.stats.deviceId).toBe(PHONE)
+  })
+
+  it('does not double count a repeated sync', () => {
+    const phone = playOn(PHONE)
+    const once = mergeStats(emptyStats(TABLET), phone.stats)
+    const twice = mergeStats(once, phone.stats)
+    expect(lifetimeTotals(twice)).toEqual(lifetimeTotals(once))
+  })
+
+  it('keeps the best record across devices', () => {
+    const stats = parseStats({
+      version: 2,
+      devices: {
+        [PHONE]: { bounces: 1, distance: 1, topSpeed: 3, longestCalmMs: 500, playedMs: 1000 },
+        [TABLET]: { bounces: 2, distance: 1, topSpeed: 5, longestCalmMs: 200, playedMs: 1000 }
+      },
+      unlocked: {},
+      updatedAt: 0
+    })
+    expect(lifetimeTotals(stats)).toEqual({ bounces: 3, distance: 2, topSpeed: 5, longestCalmMs: 500, playedMs: 2000 })
+  })
+})
+
+describe('parseStats', () => {
+  it('moves version 1 totals to the legacy device', () => {
+    const lifetime = { bounces: 4, distance: 10, topSpeed: 2, longestCalmMs: 100, playedMs: 5000 }
+    const stats = parseStats({ version: 1, lifetime, unlocked: { bounces100: 7 }, updatedAt: 9 })
+    expect(stats.devices).toEqual({ legacy: lifetime })
+    expect(lifetimeTotals(stats)).toEqual(lifetime)
+  })
+
+  it('rejects device ids that are not ids', () => {
+    const devices = { phone: { bounces: 0, distance: 0, topSpeed: 0, longestCalmMs: 0, playedMs: 0 } }
+    expect(() => parseStats({ version: 2, devices, unlocked: {}, updatedAt: 0 })).toThrow(StatsValidationError)
+  })
+
+  it('rejects too many devices', () => {
+    const totals = { bounces: 0, distance: 0, topSpeed: 0, longestCalmMs: 0, playedMs: 0 }
+    const devices = Object.fromEntries(
+      Array.from({ length: MAX_DEVICES + 1 }, (_, i) => [`00000000-0000-4000-8000-${String(i).padStart(12, '0')}`, totals])
+    )
+    expect(() => parseStats({ version: 2, devices, unlocked: {}, updatedAt: 0 })).toThrow(StatsValidationError)
+  })
+})
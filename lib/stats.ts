@@ -0,0 +1,384 @@
+// Play statistics and achievements. A tracker follows live play frame by frame,
+// keeping this session's totals and adding them into this device's lifetime
+// totals in localStorage. Farcaster players also sync to /api/stats, keyed by
+// fid. Every device only ever adds to its own totals, and lifetime stats are
+// those of all the player's devices together, so play on two devices adds up and
+// syncing the same totals twice never double counts. Distances and speeds are in
+// real units, like the physics.
+
+import { Ball, CollisionEvent, CollisionZones, FIXED_TIMESTEP_MS, PhysicsParams, speedLimit } from './physics'
+
+export interface StatTotals {
+  bounces: number // Wall zone entries, the moments a wall sound plays
+  distance: number // Metres rolled by every ball together
+  topSpeed: number // m/s
+  longestCalmMs: number // Longest stretch without any ball touching a wall
+  playedMs: number
+}
+
+export type AchievementId = 'bounces100' | 'speedDemon' | 'zen' | 'roller' | 'devoted'
+
+// What an achievement is judged on after each frame
+export interface AchievementProgress {
+  lifetime: StatTotals
+  session: StatTotals
+  atSpeedLimit: boolean // Some ball is going as fast as the engine lets it
+}
+
+export interface Achievement {
+  id: AchievementId
+  name: string
+  description: string
+  earned: (progress: AchievementProgress) => boolean
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'bounces100',
+    name: '100 Bounces',
+    description: 'Bounce off the walls 100 times',
+    earned: ({ lifetime }) => lifetime.bounces >= 100
+  },
+  {
+    id: 'speedDemon',
+    name: 'Speed Demon',
+    description: 'Roll a ball at top speed',
+    earned: ({ atSpeedLimit }) => atSpeedLimit
+  },
+  {
+    id: 'zen',
+    name: 'Zen',
+    description: 'Go 60s without touching a wall',
+    earned: ({ lifetime }) => lifetime.longestCalmMs >= 60_000
+  },
+  {
+    id: 'roller',
+    name: 'Long Haul',
+    description: 'Roll 100 m in total',
+    earned: ({ lifetime }) => lifetime.distance >= 100
+  },
+  {
+    id: 'devoted',
+    name: 'Devoted',
+    description: 'Play for an hour in total',
+    earned: ({ lifetime }) => lifetime.playedMs >= 60 * 60_000
+  }
+]
+
+// What the server keeps per fid, and what a device sends it
+export interface SyncedStats {
+  version: typeof STATS_VERSION
+  devices: Record<string, StatTotals> // Lifetime totals per device id
+  unlocked: Partial<Record<AchievementId, number>> // When each was unlocked, epoch milliseconds
+  updatedAt: number // Epoch milliseconds
+}
+
+// A device's own copy, which also knows which entry in `devices` is its own
+export interface StoredStats extends SyncedStats {
+  deviceId: string
+}
+
+// A frame of play as the tracker sees it; rooms only pass the player's own ball
+export interface StatsFrame {
+  balls: Ball[]
+  zones: CollisionZones[] // Parallel to `balls`
+  events: CollisionEvent[]
+}
+
+export class StatsValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StatsValidationError'
+  }
+}
+
+// Version 1 kept a single lifetime total per player, merged by taking the larger of each figure
+export const STATS_VERSION = 2
+
+const STORAGE_KEY = 'fidgetball:stats'
+// Longer frames are the tab coming back from the background, not play
+const MAX_FRAME_MS = 250
+// Within a hair of the cap counts as at it
+const SPEED_LIMIT_RATIO = 0.98
+// Faster than the engine's speed cap at any screen scale, so anything above is made up
+const MAX_TOP_SPEED = 20 // m/s
+// Enough for every phone, tablet and browser someone plays on; keeps a synced record bounded
+export const MAX_DEVICES = 16
+// Version 1 totals were merged across devices already, so they move to one shared entry
+// on every device and the server alike, and keep merging without counting twice
+const LEGACY_DEVICE_ID = 'legacy'
+const DEVICE_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+export const emptyTotals = (): StatTotals => ({ bounces: 0, distance: 0, topSpeed: 0, longestCalmMs: 0, playedMs: 0 })
+
+const newDeviceId = () => crypto.randomUUID()
+
+export const emptyStats = (deviceId: string = newDeviceId()): StoredStats => ({
+  version: STATS_VERSION,
+  deviceId,
+  devices: {},
+  unlocked: {},
+  updatedAt: 0
+})
+
+// Counts add up across devices; records are the best any device has set
+export function lifetimeTotals(stats: SyncedStats): StatTotals {
+  return Object.values(stats.devices).reduce(
+    (total, device) => ({
+      bounces: total.bounces + device.bounces,
+      distance: total.distance + device.distance,
+      topSpeed: Math.max(total.topSpeed, device.topSpeed),
+      longestCalmMs: Math.max(total.longestCalmMs, device.longestCalmMs),
+      playedMs: total.playedMs + device.playedMs
+    }),
+    emptyTotals()
+  )
+}
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+function parseTotals(value: unknown, path: string): StatTotals {
+  if (typeof value !== 'object' || value === null) throw new StatsValidationError(`${path} is required`)
+  const fields = value as Record<string, unknown>
+  const totals = emptyTotals()
+  for (const key of Object.keys(totals) as Array<keyof StatTotals>) {
+    const amount = fields[key]
+    if (!isAmount(amount)) throw new StatsValidationError(`${path}.${key} must be a non-negative number`)
+    totals[key] = amount
+  }
+  if (!Number.isInteger(totals.bounces)) throw new StatsValidationError(`${path}.bounces must be a whole number`)
+  if (totals.topSpeed > MAX_TOP_SPEED) throw new StatsValidationError(`${path}.topSpeed is faster than a ball can go`)
+  if (totals.longestCalmMs > totals.playedMs) throw new StatsValidationError(`${path}.longestCalmMs cannot exceed playedMs`)
+  return totals
+}
+
+function parseDevices(value: unknown): Record<string, StatTotals> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new StatsValidationError('devices is required')
+  const entries = Object.entries(value)
+  if (entries.length > MAX_DEVICES) throw new StatsValidationError(`devices must list at most ${MAX_DEVICES} devices`)
+  const devices: Record<string, StatTotals> = {}
+  for (const [id, totals] of entries) {
+    if (id !== LEGACY_DEVICE_ID && !DEVICE_ID_PATTERN.test(id)) throw new StatsValidationError(`devices.${id} is not a device id`)
+    devices[id] = parseTotals(totals, `devices.${id}`)
+  }
+  return devices
+}
+
+// Validates stats from storage or a sync request, upgrading version 1.
+// Unknown achievements are dropped, so old clients survive new ones.
+export function parseStats(data: unknown): SyncedStats {
+  if (typeof data !== 'object' || data === null) throw new StatsValidationError('stats must be an object')
+  const stats = data as Record<string, unknown>
+  if (stats.version !== STATS_VERSION && stats.version !== 1) throw new StatsValidationError(`version must be ${STATS_VERSION}`)
+
+  const unlocked: StoredStats['unlocked'] = {}
+  const fields = typeof stats.unlocked === 'object' && stats.unlocked !== null ? (stats.unlocked as Record<string, unknown>) : {}
+  for (const { id } of ACHIEVEMENTS) {
+    const unlockedAt = fields[id]
+    if (isAmount(unlockedAt)) unlocked[id] = unlockedAt
+  }
+
+  return {
+    version: STATS_VERSION,
+    devices: stats.version === 1 ? { [LEGACY_DEVICE_ID]: parseTotals(stats.lifetime, 'lifetime') } : parseDevices(stats.devices),
+    unlocked,
+    updatedAt: isAmount(stats.updatedAt) ? stats.updatedAt : 0
+  }
+}
+
+// Two copies of the same player's stats, from this device and the server. A device's
+// totals only ever grow, so of two copies of one device's entry the larger figures are the
+// newer; different devices sit side by side. Merging the same copy twice changes nothing.
+export function mergeStats(a: SyncedStats, b: SyncedStats): SyncedStats {
+  const devices: Record<string, StatTotals> = { ...a.devices }
+  for (const [id, theirs] of Object.entries(b.devices)) {
+    const ours = devices[id]
+    if (!ours) {
+      devices[id] = theirs
+      continue
+    }
+    const merged = emptyTotals()
+    for (const key of Object.keys(merged) as Array<keyof StatTotals>) {
+      merged[key] = Math.max(ours[key], theirs[key])
+    }
+    devices[id] = merged
+  }
+  const unlocked: SyncedStats['unlocked'] = { ...a.unlocked }
+  for (const { id } of ACHIEVEMENTS) {
+    const other = b.unlocked[id]
+    const own = unlocked[id]
+    if (other !== undefined && (own === undefined || other < own)) unlocked[id] = other
+  }
+  return { version: STATS_VERSION, devices, unlocked, updatedAt: Math.max(a.updatedAt, b.updatedAt) }
+}
+
+export function loadStats(): StoredStats {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return emptyStats()
+    const data = JSON.parse(stored)
+    const deviceId = typeof data?.deviceId === 'string' && DEVICE_ID_PATTERN.test(data.deviceId) ? data.deviceId : newDeviceId()
+    return { ...parseStats(data), deviceId }
+  } catch (error) {
+    console.log('Stats could not be loaded, starting fresh:', error)
+    return emptyStats()
+  }
+}
+
+export function saveStats(stats: StoredStats) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stats))
+  } catch (error) {
+    console.log('Stats could not be saved:', error)
+  }
+}
+
+export function createStatsTracker(initial: StoredStats = emptyStats()) {
+  let stored = initial
+  let session = emptyTotals()
+  let calmMs = 0
+  let changed = false
+
+  return {
+    // Count one frame of live play; returns the achievements it unlocked
+    record(frame: StatsFrame, elapsedMs: number, params: PhysicsParams, now: number = Date.now()): Achievement[] {
+      const frameMs = Math.min(Math.max(0, elapsedMs), MAX_FRAME_MS)
+      if (frameMs === 0 || frame.balls.length === 0) return []
+
+      const steps = frameMs / FIXED_TIMESTEP_MS
+      const bounces = frame.events.filter(event => event.type === 'zoneEnter').length
+      const speeds = frame.balls.map(ball => Math.hypot(ball.vx, ball.vy))
+      // px/step to m/s
+      const toMetresPerSecond = 1000 / FIXED_TIMESTEP_MS / params.pixelsPerMetre
+      const distance = speeds.reduce((sum, speed) => sum + speed * steps, 0) / params.pixelsPerMetre
+      const topSpeed = Math.max(...speeds) * toMetresPerSecond
+      const atSpeedLimit = frame.balls.some(
+        (ball, index) => speeds[index] >= speedLimit(ball, params) * SPEED_LIMIT_RATIO
+      )
+      const touchingWall = bounces > 0 || frame.zones.some(zones => zones.some(Boolean))
+      calmMs = touchingWall ? 0 : calmMs + frameMs
+
+      const add = (totals: StatTotals): StatTotals => ({
+        bounces: totals.bounces + bounces,
+        distance: totals.distance + distance,
+        topSpeed: Math.max(totals.topSpeed, topSpeed),
+        longestCalmMs: Math.max(totals.longestCalmMs, calmMs),
+        playedMs: totals.playedMs + frameMs
+      })
+      session = add(session)
+      stored = {
+        ...stored,
+        devices: { ...stored.devices, [stored.deviceId]: add(stored.devices[stored.deviceId] ?? emptyTotals()) },
+        updatedAt: now
+      }
+      changed = true
+
+      const progress: AchievementProgress = { lifetime: lifetimeTotals(stored), session, atSpeedLimit }
+      const unlocked = ACHIEVEMENTS.filter(achievement => stored.unlocked[achievement.id] === undefined && achievement.earned(progress))
+      if (unlocked.length > 0) {
+        stored = {
+          ...stored,
+          unlocked: { ...stored.unlocked, ...Object.fromEntries(unlocked.map(({ id }) => [id, now])) }
+        }
+      }
+      return unlocked
+    },
+    // Fold in stats synced from the server, which include the player's other devices
+    merge(other: SyncedStats) {
+      stored = { ...mergeStats(stored, other), deviceId: stored.deviceId }
+      changed = true
+    },
+    // The calm stretch ends whenever play is interrupted: a replay, a level change, a new room
+    interrupt() {
+      calmMs = 0
+    },
+    // Whether anything changed since the last call, so callers only save when needed
+    takeChanged(): boolean {
+      const result = changed
+      changed = false
+      return result
+    },
+    get session(): StatTotals {
+      return session
+    },
+    get lifetime(): StatTotals {
+      return lifetimeTotals(stored)
+    },
+    get stats(): StoredStats {
+      return stored
+    }
+  }
+}
+
+export type StatsTracker = ReturnType<typeof createStatsTracker>
+
+export function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(metres >= 100 ? 0 : 1)} m`
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
+
+const TOAST_MS = 3000
+const TOAST_FADE_MS = 400
+const TOAST_WIDTH = 240
+const TOAST_HEIGHT = 48
+
+export interface AchievementToast {
+  achievement: Achievement
+  shownAt: number | null // performance.now() when it reached the front of the queue
+}
+
+// Unlocks show one at a time, each for a few seconds; returns the toasts still to finish
+export function drawAchievementToasts(
+  ctx: CanvasRenderingContext2D,
+  toasts: AchievementToast[],
+  centerX: number,
+  top: number,
+  font: string,
+  now: number
+): AchievementToast[] {
+  const waiting = toasts.filter(toast => toast.shownAt === null || now - toast.shownAt < TOAST_MS)
+  const current = waiting[0]
+  if (!current) return waiting
+  if (current.shownAt === null) current.shownAt = now
+
+  const age = now - current.shownAt
+  const fade = Math.min(1, age / TOAST_FADE_MS, (TOAST_MS - age) / TOAST_FADE_MS)
+  const left = centerX - TOAST_WIDTH / 2
+  ctx.save()
+  ctx.globalAlpha = fade
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.8)'
+  ctx.fillRect(left, top, TOAST_WIDTH, TOAST_HEIGHT)
+  ctx.strokeStyle = '#ffe66d'
+  ctx.lineWidth = 2
+  ctx.strokeRect(left, top, TOAST_WIDTH, TOAST_HEIGHT)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = '#ffe66d'
+  ctx.font = `bold 14px ${font}`
+  ctx.fillText(`🏆 ${current.achievement.name}`, centerX, top + 8)
+  ctx.fillStyle = '#ffffff'
+  ctx.font = `11px ${font}`
+  ctx.fillText(current.achievement.description, centerX, top + 28)
+  ctx.restore()
+  return waiting
+}
+
+// Responds with the server's merged copy, which may include play from other devices
+export async function uploadStats(fid: number, stats: SyncedStats): Promise<SyncedStats> {
+  const response = await fetch('/api/stats', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fid, stats })
+  })
+  if (!response.ok) {
+    throw new Error(`Stats sync failed: ${response.status}`)
+  }
+  return parseStats((await response.json()).stats)
+}
@@ -0,0 +1,37 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { emptyTotals, MAX_DEVICES, StatsValidationError, STATS_VERSION, SyncedStats } from './stats'
+import { createJsonFileStatsStore } from './statsStore'
+
+const deviceId = (index: number) => `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`
+
+const statsFrom = (...indices: number[]): SyncedStats => ({
+  version: STATS_VERSION,
+  devices: Object.fromEntries(indices.map(index => [deviceId(index), { ...emptyTotals(), bounces: 1 }])),
+  unlocked: {},
+  updatedAt: 0
+})
+
+describe('createJsonFileStatsStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'stats-store-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('lets only one of two simultaneous new devices take the last place', async () => {
+    const store = createJsonFileStatsStore(path.join(directory, 'stats.json'))
+    await store.merge(1, statsFrom(...Array.from({ length: MAX_DEVICES - 1 }, (_, i) => i)))
+
+    const results = await Promise.allSettled([store.merge(1, statsFrom(100)), store.merge(1, statsFrom(101))])
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: expect.any(StatsValidationError) })
+    expect(Object.keys((await store.get(1))!.devices)).toHaveLength(MAX_DEVICES)
+  })
+})
@@ -0,0 +1,49 @@
+// Server-side persistence for synced player stats, one copy per fid holding every
+// device's totals. The stats route only talks to the StatsStore interface, so the
+// JSON file can be swapped for a database.
+
+import path from 'path'
+import { createJsonFile } from './jsonFile'
+import { MAX_DEVICES, mergeStats, StatsValidationError, SyncedStats } from './stats'
+
+export interface StatsStore {
+  get(fid: number): Promise<SyncedStats | null>
+  // Merges into whatever is stored and returns the result. Throws StatsValidationError,
+  // leaving the stored copy as it was, when that would go over MAX_DEVICES.
+  merge(fid: number, stats: SyncedStats): Promise<SyncedStats>
+}
+
+type StatsByFid = Record<string, SyncedStats>
+
+export function createJsonFileStatsStore(file: string): StatsStore {
+  const document = createJsonFile<StatsByFid>(
+    file,
+    data => (typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as StatsByFid) : {}),
+    () => ({})
+  )
+
+  return {
+    get: async (fid) => (await document.read())[fid] ?? null,
+    merge: async (fid, stats) => {
+      // Checked inside the update so two devices syncing at once can't both slip under the cap
+      const next = await document.update(all => {
+        const merged = all[fid] ? mergeStats(all[fid], stats) : stats
+        if (Object.keys(merged.devices).length > MAX_DEVICES) {
+          throw new StatsValidationError(`stats can be synced from at most ${MAX_DEVICES} devices`)
+        }
+        return { ...all, [fid]: merged }
+      })
+      return next[fid]
+    }
+  }
+}
+
+let store: StatsStore | null = null
+
+// One store per server process; STATS_FILE moves the file (default .data/stats.json)
+export function getStatsStore(): StatsStore {
+  if (!store) {
+    store = createJsonFileStatsStore(process.env.STATS_FILE || path.join(process.cwd(), '.data', 'stats.json'))
+  }
+  return store
+}
@@ -0,0 +1,308 @@
+// Painted ground: ice, sand, conveyors, bumpers and magnets that players lay
+// out in the in-app editor. Like levels, positions are fractions of the arena
+// (radii of its shorter side) so a layout fits any screen. The layout is kept
+// in localStorage and recorded into replays.
+
+import { ArenaBounds, Surface, Vector } from './physics'
+
+export type SurfaceDefinition =
+  | { type: 'ice' | 'sand'; x: number; y: number; width: number; height: number }
+  | { type: 'conveyor'; x: number; y: number; width: number; height: number; angle: number } // Radians, 0 pushes right
+  | { type: 'bumper'; x: number; y: number; radius: number }
+  | { type: 'magnet'; x: number; y: number; radius: number; repel: boolean }
+
+export type SurfaceKind = SurfaceDefinition['type']
+
+// 'select' picks and drags existing surfaces; every other tool paints its kind
+export type SurfaceTool = 'select' | SurfaceKind
+
+export const SURFACE_KINDS: Array<{ kind: SurfaceKind; name: string }> = [
+  { kind: 'ice', name: 'Ice' },
+  { kind: 'sand', name: 'Sand' },
+  { kind: 'conveyor', name: 'Conveyor' },
+  { kind: 'bumper', name: 'Bumper' },
+  { kind: 'magnet', name: 'Magnet' }
+]
+
+export const SURFACE_LAYOUT_VERSION = 1
+export const MAX_SURFACES = 24
+
+const STORAGE_KEY = 'fidgetball:surfaces'
+// A rolling ball feels this on a slope of about 12°
+const CONVEYOR_ACCELERATION = 1.5 // m/s²
+const MAGNET_ACCELERATION = 3 // m/s² at the centre
+const BUMPER_KICK = 0.25 // m/s
+// Round surfaces are placed with a tap, at these radii
+const BUMPER_RADIUS = 0.06
+const MAGNET_RADIUS = 0.2
+// Smaller drags are taps, not patches
+const MIN_PATCH_SIZE = 0.03
+const CHEVRON_SPACING = 20
+const CHEVRON_SPEED = 40 // px/s, just to show which way the belt runs
+
+type PatchDefinition = Extract<SurfaceDefinition, { width: number }>
+
+export const isPatch = (surface: SurfaceDefinition): surface is PatchDefinition => 'width' in surface
+
+// Scale a layout to the current arena size, keeping the order so indices match
+export function resolveSurfaces(surfaces: SurfaceDefinition[], bounds: ArenaBounds): Surface[] {
+  const { width, height } = bounds
+  const unit = Math.min(width, height)
+
+  return surfaces.map((surface): Surface => {
+    switch (surface.type) {
+      case 'ice':
+      case 'sand':
+        return { type: surface.type, x: surface.x * width, y: surface.y * height, width: surface.width * width, height: surface.height * height }
+      case 'conveyor':
+        return {
+          type: 'conveyor',
+          x: surface.x * width,
+          y: surface.y * height,
+          width: surface.width * width,
+          height: surface.height * height,
+          angle: surface.angle,
+          strength: CONVEYOR_ACCELERATION
+        }
+      case 'bumper':
+        return { type: 'bumper', x: surface.x * width, y: surface.y * height, radius: surface.radius * unit, kick: BUMPER_KICK }
+      case 'magnet':
+        return {
+          type: 'magnet',
+          x: surface.x * width,
+          y: surface.y * height,
+          radius: surface.radius * unit,
+          strength: surface.repel ? -MAGNET_ACCELERATION : MAGNET_ACCELERATION
+        }
+    }
+  })
+}
+
+const isFraction = (value: unknown, min = 0, max = 1): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+
+function parseSurface(value: unknown): SurfaceDefinition | null {
+  if (typeof value !== 'object' || value === null) return null
+  const fields = value as Record<string, unknown>
+  const { x, y } = fields
+  if (!isFraction(x) || !isFraction(y)) return null
+
+  switch (fields.type) {
+    case 'ice':
+    case 'sand':
+    case 'conveyor': {
+      const { width, height, angle } = fields
+      if (!isFraction(width) || !isFraction(height)) return null
+      if (fields.type !== 'conveyor') return { type: fields.type, x, y, width, height }
+      return typeof angle === 'number' && Number.isFinite(angle) ? { type: 'conveyor', x, y, width, height, angle } : null
+    }
+    case 'bumper':
+      return isFraction(fields.radius) ? { type: 'bumper', x, y, radius: fields.radius } : null
+    case 'magnet':
+      return isFraction(fields.radius) ? { type: 'magnet', x, y, radius: fields.radius, repel: fields.repel === true } : null
+    default:
+      return null
+  }
+}
+
+// Keep only the surfaces that validate, so one bad entry doesn't lose the rest
+export function parseSurfaces(value: unknown): SurfaceDefinition[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    const surface = parseSurface(item)
+    return surface ? [surface] : []
+  }).slice(0, MAX_SURFACES)
+}
+
+export function loadSurfaces(): SurfaceDefinition[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const layout = JSON.parse(stored)
+    return layout?.version === SURFACE_LAYOUT_VERSION ? parseSurfaces(layout.surfaces) : []
+  } catch (error) {
+    console.log('Surfaces could not be loaded:', error)
+    return []
+  }
+}
+
+export function saveSurfaces(surfaces: SurfaceDefinition[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SURFACE_LAYOUT_VERSION, surfaces }))
+  } catch (error) {
+    console.log('Surfaces could not be saved:', error)
+  }
+}
+
+// The topmost surface under a point in arena pixels; later surfaces are drawn over earlier ones
+export function surfaceAt(surfaces: SurfaceDefinition[], point: Vector, bounds: ArenaBounds): number | null {
+  const resolved = resolveSurfaces(surfaces, bounds)
+  for (let i = resolved.length - 1; i >= 0; i--) {
+    const surface = resolved[i]
+    const hit = 'width' in surface
+      ? point.x >= surface.x && point.x <= surface.x + surface.width && point.y >= surface.y && point.y <= surface.y + surface.height
+      : Math.hypot(point.x - surface.x, point.y - surface.y) <= (surface.type === 'magnet' ? surface.radius * 0.3 : surface.radius)
+    if (hit) return i
+  }
+  return null
+}
+
+// Shift a surface by an offset in arena pixels, keeping it on the board
+export function moveSurface(surface: SurfaceDefinition, offset: Vector, bounds: ArenaBounds): SurfaceDefinition {
+  const dx = offset.x / bounds.width
+  const dy = offset.y / bounds.height
+  if (isPatch(surface)) {
+    return {
+      ...surface,
+      x: Math.min(1 - surface.width, Math.max(0, surface.x + dx)),
+      y: Math.min(1 - surface.height, Math.max(0, surface.y + dy))
+    }
+  }
+  return { ...surface, x: Math.min(1, Math.max(0, surface.x + dx)), y: Math.min(1, Math.max(0, surface.y + dy)) }
+}
+
+// What a paint gesture from `start` to `end` (arena pixels) makes: patches span the drag,
+// round surfaces go where the finger lifted. Null when a patch drag is too small.
+export function paintedSurface(kind: SurfaceKind, start: Vector, end: Vector, bounds: ArenaBounds): SurfaceDefinition | null {
+  const clampUnit = (value: number) => Math.min(1, Math.max(0, value))
+  const x = clampUnit(Math.min(start.x, end.x) / bounds.width)
+  const y = clampUnit(Math.min(start.y, end.y) / bounds.height)
+  const width = clampUnit(Math.max(start.x, end.x) / bounds.width) - x
+  const height = clampUnit(Math.max(start.y, end.y) / bounds.height) - y
+
+  switch (kind) {
+    case 'ice':
+    case 'sand':
+      return width < MIN_PATCH_SIZE || height < MIN_PATCH_SIZE ? null : { type: kind, x, y, width, height }
+    case 'conveyor':
+      // The belt runs the way the drag went along its longer side
+      if (width < MIN_PATCH_SIZE || height < MIN_PATCH_SIZE) return null
+      return {
+        type: 'conveyor',
+        x,
+        y,
+        width,
+        height,
+        angle: width * bounds.width >= height * bounds.height ? (end.x >= start.x ? 0 : Math.PI) : end.y >= start.y ? Math.PI / 2 : -Math.PI / 2
+      }
+    case 'bumper':
+      return { type: 'bumper', x: clampUnit(end.x / bounds.width), y: clampUnit(end.y / bounds.height), radius: BUMPER_RADIUS }
+    case 'magnet':
+      return { type: 'magnet', x: clampUnit(end.x / bounds.width), y: clampUnit(end.y / bounds.height), radius: MAGNET_RADIUS, repel: false }
+  }
+}
+
+// Cheap repeatable noise, so sand grains stay put from frame to frame
+const grain = (i: number, j: number) => {
+  const value = Math.sin(i * 12.9898 + j * 78.233) * 43758.5453
+  return value - Math.floor(value)
+}
+
+function paintPatch(ctx: CanvasRenderingContext2D, surface: Extract<Surface, { width: number }>, now: number) {
+  const { x, y, width, height } = surface
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(x, y, width, height)
+  ctx.clip()
+
+  switch (surface.type) {
+    case 'ice':
+      // Pale blue with diagonal glints
+      ctx.fillStyle = 'rgba(173, 216, 255, 0.35)'
+      ctx.fillRect(x, y, width, height)
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      for (let offset = -height; offset < width; offset += 14) {
+        ctx.moveTo(x + offset, y + height)
+        ctx.lineTo(x + offset + height, y)
+      }
+      ctx.stroke()
+      break
+    case 'sand':
+      // Speckled tan
+      ctx.fillStyle = 'rgba(214, 176, 112, 0.45)'
+      ctx.fillRect(x, y, width, height)
+      ctx.fillStyle = 'rgba(120, 85, 40, 0.45)'
+      for (let i = 0; i < width / 6; i++) {
+        for (let j = 0; j < height / 6; j++) {
+          ctx.fillRect(x + (i + grain(i, j)) * 6, y + (j + grain(j, i)) * 6, 1.5, 1.5)
+        }
+      }
+      break
+    case 'conveyor': {
+      // Chevrons that crawl the way the belt pushes
+      ctx.fillStyle = 'rgba(120, 120, 140, 0.35)'
+      ctx.fillRect(x, y, width, height)
+      const reach = Math.hypot(width, height) / 2
+      const shift = ((now / 1000) * CHEVRON_SPEED) % CHEVRON_SPACING
+      ctx.translate(x + width / 2, y + height / 2)
+      ctx.rotate(surface.angle)
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      for (let along = -reach - CHEVRON_SPACING + shift; along < reach; along += CHEVRON_SPACING) {
+        for (let across = -reach; across < reach; across += CHEVRON_SPACING) {
+          ctx.moveTo(along - 5, across - 6)
+          ctx.lineTo(along + 1, across)
+          ctx.lineTo(along - 5, across + 6)
+        }
+      }
+      ctx.stroke()
+      break
+    }
+  }
+  ctx.restore()
+}
+
+// Draw surfaces under the balls, with a dashed outline round the selected one
+export function paintSurfaces(ctx: CanvasRenderingContext2D, surfaces: Surface[], now: number, selected: number | null = null) {
+  surfaces.forEach((surface, index) => {
+    switch (surface.type) {
+      case 'ice':
+      case 'sand':
+      case 'conveyor':
+        paintPatch(ctx, surface, now)
+        break
+      case 'bumper':
+        ctx.beginPath()
+        ctx.arc(surface.x, surface.y, surface.radius, 0, Math.PI * 2)
+        ctx.fillStyle = '#ff6b9d'
+        ctx.fill()
+        ctx.strokeStyle = '#ffffff'
+        ctx.lineWidth = 3
+        ctx.stroke()
+        ctx.beginPath()
+        ctx.arc(surface.x, surface.y, surface.radius * 0.5, 0, Math.PI * 2)
+        ctx.stroke()
+        break
+      case 'magnet': {
+        // Rings fading out to the edge of its reach: red pulls, blue pushes
+        const color = surface.strength >= 0 ? '255, 71, 87' : '116, 185, 255'
+        for (let ring = 1; ring <= 4; ring++) {
+          ctx.beginPath()
+          ctx.arc(surface.x, surface.y, (surface.radius * ring) / 4, 0, Math.PI * 2)
+          ctx.strokeStyle = `rgba(${color}, ${0.6 - ring * 0.12})`
+          ctx.lineWidth = 2
+          ctx.stroke()
+        }
+        ctx.beginPath()
+        ctx.arc(surface.x, surface.y, surface.radius * 0.12, 0, Math.PI * 2)
+        ctx.fillStyle = `rgb(${color})`
+        ctx.fill()
+        break
+      }
+    }
+
+    if (index !== selected) return
+    ctx.save()
+    ctx.setLineDash([6, 4])
+    ctx.strokeStyle = '#ffffff'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    if ('width' in surface) ctx.rect(surface.x - 2, surface.y - 2, surface.width + 4, surface.height + 4)
+    else ctx.arc(surface.x, surface.y, surface.radius + 3, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.restore()
+  })
+}
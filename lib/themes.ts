@@ -0,0 +1,352 @@
+// Canvas themes: everything draw() paints that isn't gameplay feedback. A
+// theme is plain data (colours, fonts, a ball material and an optional
+// procedural pattern), so adding one doesn't touch the renderer. Colours
+// written as { ball: n } follow each ball's own colour, lightened towards
+// white for positive n or darkened towards black for negative n.
+
+import { Ball } from './physics'
+import { traceSeam, Vector3 } from './rolling'
+
+export type ThemeId = 'classic' | 'daylight' | 'neon' | 'marble' | 'felt' | 'high-contrast'
+
+// 'auto' follows the system light/dark preference
+export type ThemeSetting = 'auto' | ThemeId
+
+export type ThemeColor = string | { ball: number }
+
+export interface BallMaterial {
+  // Radial gradient from the lit side (offset 0) to the rim (offset 1)
+  stops: Array<{ offset: number; color: ThemeColor }>
+  highlight: string | null // Small specular dot towards the light
+  shadow: { color: string; offsetX: number; offsetY: number } | null
+  glow: { color: ThemeColor; blur: number } | null
+  outline: { color: ThemeColor; width: number } | null
+  seam: { color: ThemeColor; width: number } | null // Line around the ball that shows it turning
+}
+
+// Tiled over the background; generated once per theme, so nothing is fetched
+export type ThemePattern =
+  | { type: 'grid'; color: string; spacing: number }
+  | { type: 'speckle'; color: string; density: number } // Dots per 100 px²
+  | { type: 'veins'; color: string; count: number }
+
+export interface Theme {
+  id: ThemeId
+  name: string
+  background: string
+  pattern: ThemePattern | null
+  watermark: string
+  font: string // CSS font family for the watermark and HUD
+  text: string // HUD text
+  arenaOutline: string // Frame around replay and multiplayer arenas
+  obstacle: string
+  hole: string
+  ball: BallMaterial
+}
+
+const CLASSIC_BALL: BallMaterial = {
+  stops: [
+    { offset: 0, color: '#ffffff' },
+    { offset: 0.3, color: { ball: 0 } },
+    { offset: 1, color: { ball: 0 } }
+  ],
+  highlight: 'rgba(255, 255, 255, 0.6)',
+  shadow: { color: 'rgba(0, 0, 0, 0.2)', offsetX: 3, offsetY: 3 },
+  glow: null,
+  outline: null,
+  seam: { color: { ball: -0.45 }, width: 1.5 }
+}
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    background: '#2a2a2a',
+    pattern: null,
+    watermark: '#4a4a4a',
+    font: 'Arial, sans-serif',
+    text: '#ffffff',
+    arenaOutline: 'rgba(255, 255, 255, 0.3)',
+    obstacle: '#6a6a6a',
+    hole: '#0d0d0d',
+    ball: CLASSIC_BALL
+  },
+  {
+    id: 'daylight',
+    name: 'Daylight',
+    background: '#f2f2f2',
+    pattern: null,
+    watermark: '#dddddd',
+    font: 'Arial, sans-serif',
+    text: '#222222',
+    arenaOutline: 'rgba(0, 0, 0, 0.25)',
+    obstacle: '#a0a0a0',
+    hole: '#3a3a3a',
+    ball: { ...CLASSIC_BALL, shadow: { color: 'rgba(0, 0, 0, 0.15)', offsetX: 3, offsetY: 3 } }
+  },
+  {
+    id: 'neon',
+    name: 'Neon',
+    background: '#0a0a1a',
+    pattern: { type: 'grid', color: 'rgba(255, 0, 200, 0.15)', spacing: 32 },
+    watermark: 'rgba(0, 255, 255, 0.2)',
+    font: '"Courier New", monospace',
+    text: '#00ffff',
+    arenaOutline: 'rgba(0, 255, 255, 0.6)',
+    obstacle: '#ff00c8',
+    hole: '#000000',
+    ball: {
+      stops: [
+        { offset: 0, color: { ball: 0.7 } },
+        { offset: 0.5, color: { ball: 0 } },
+        { offset: 1, color: { ball: -0.3 } }
+      ],
+      highlight: null,
+      shadow: null,
+      glow: { color: { ball: 0 }, blur: 18 },
+      outline: null,
+      seam: { color: { ball: 0.8 }, width: 1.5 }
+    }
+  },
+  {
+    id: 'marble',
+    name: 'Marble',
+    background: '#ddd8d0',
+    pattern: { type: 'veins', color: 'rgba(90, 80, 70, 0.18)', count: 6 },
+    watermark: 'rgba(0, 0, 0, 0.1)',
+    font: 'Georgia, serif',
+    text: '#3b3632',
+    arenaOutline: 'rgba(0, 0, 0, 0.3)',
+    obstacle: '#8a8178',
+    hole: '#3b3632',
+    ball: {
+      stops: [
+        { offset: 0, color: '#ffffff' },
+        { offset: 0.25, color: { ball: 0.3 } },
+        { offset: 0.8, color: { ball: 0 } },
+        { offset: 1, color: { ball: -0.35 } }
+      ],
+      highlight: 'rgba(255, 255, 255, 0.8)',
+      shadow: { color: 'rgba(0, 0, 0, 0.3)', offsetX: 4, offsetY: 4 },
+      glow: null,
+      outline: null,
+      seam: { color: 'rgba(255, 255, 255, 0.7)', width: 2 }
+    }
+  },
+  {
+    id: 'felt',
+    name: 'Pool Table',
+    background: '#0b6623',
+    pattern: { type: 'speckle', color: 'rgba(0, 0, 0, 0.18)', density: 6 },
+    watermark: 'rgba(255, 255, 255, 0.08)',
+    font: 'Georgia, serif',
+    text: '#f5f0e1',
+    arenaOutline: 'rgba(92, 58, 30, 0.9)',
+    obstacle: '#5c3a1e',
+    hole: '#050505',
+    ball: {
+      stops: [
+        { offset: 0, color: '#ffffff' },
+        { offset: 0.2, color: { ball: 0.2 } },
+        { offset: 1, color: { ball: -0.45 } }
+      ],
+      highlight: 'rgba(255, 255, 255, 0.7)',
+      shadow: { color: 'rgba(0, 0, 0, 0.35)', offsetX: 4, offsetY: 4 },
+      glow: null,
+      outline: null,
+      seam: { color: 'rgba(255, 255, 255, 0.85)', width: 2 }
+    }
+  },
+  {
+    id: 'high-contrast',
+    name: 'High Contrast',
+    background: '#000000',
+    pattern: null,
+    watermark: 'rgba(255, 255, 255, 0.15)',
+    font: 'Arial, sans-serif',
+    text: '#ffffff',
+    arenaOutline: '#ffffff',
+    obstacle: '#ffffff',
+    hole: '#ffd400',
+    ball: {
+      stops: [
+        { offset: 0, color: { ball: 0 } },
+        { offset: 1, color: { ball: 0 } }
+      ],
+      highlight: null,
+      shadow: null,
+      glow: null,
+      outline: { color: '#ffffff', width: 2 },
+      seam: { color: '#000000', width: 2 }
+    }
+  }
+]
+
+export const THEME_SETTINGS: readonly ThemeSetting[] = ['auto', ...THEMES.map(theme => theme.id)]
+
+const DARK_THEME: ThemeId = 'classic'
+const LIGHT_THEME: ThemeId = 'daylight'
+const PATTERN_TILE_SIZE = 128
+
+export function resolveTheme(setting: ThemeSetting, prefersDark: boolean): Theme {
+  const id = setting === 'auto' ? (prefersDark ? DARK_THEME : LIGHT_THEME) : setting
+  return THEMES.find(theme => theme.id === id) ?? THEMES[0]
+}
+
+// Mix a #rrggbb colour towards white (amount > 0) or black (amount < 0)
+export function shadeColor(hex: string, amount: number): string {
+  const value = parseInt(hex.slice(1), 16)
+  const target = amount > 0 ? 255 : 0
+  const mix = (channel: number) => Math.round(channel + (target - channel) * Math.min(1, Math.abs(amount)))
+  const r = mix((value >> 16) & 255)
+  const g = mix((value >> 8) & 255)
+  const b = mix(value & 255)
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`
+}
+
+const resolveColor = (color: ThemeColor, ball: Ball) =>
+  typeof color === 'string' ? color : color.ball === 0 ? ball.color : shadeColor(ball.color, color.ball)
+
+// Deterministic, so a pattern looks the same on every visit
+function seededRandom(seed: number) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+function drawPatternTile(ctx: CanvasRenderingContext2D, pattern: ThemePattern) {
+  const size = PATTERN_TILE_SIZE
+  const random = seededRandom(size)
+  ctx.strokeStyle = pattern.color
+  ctx.fillStyle = pattern.color
+
+  switch (pattern.type) {
+    case 'grid':
+      ctx.lineWidth = 1
+      for (let offset = 0; offset < size; offset += pattern.spacing) {
+        ctx.beginPath()
+        ctx.moveTo(offset + 0.5, 0)
+        ctx.lineTo(offset + 0.5, size)
+        ctx.moveTo(0, offset + 0.5)
+        ctx.lineTo(size, offset + 0.5)
+        ctx.stroke()
+      }
+      break
+    case 'speckle':
+      for (let i = 0; i < (size * size * pattern.density) / 100; i++) {
+        ctx.fillRect(random() * size, random() * size, 1, 1)
+      }
+      break
+    case 'veins':
+      // Wandering lines that wrap across the tile edges so the seams don't show
+      ctx.lineWidth = 1.5
+      for (let i = 0; i < pattern.count; i++) {
+        const points = [{ x: random() * size, y: 0 }]
+        while (points[points.length - 1].y < size) {
+          const last = points[points.length - 1]
+          points.push({ x: last.x + (random() - 0.5) * 16, y: last.y + 8 })
+        }
+        for (const shift of [-size, 0, size]) {
+          ctx.beginPath()
+          points.forEach((point, index) => {
+            if (index === 0) ctx.moveTo(point.x + shift, point.y)
+            else ctx.lineTo(point.x + shift, point.y)
+          })
+          ctx.stroke()
+        }
+      }
+      break
+  }
+}
+
+const patternTiles = new Map<ThemeId, HTMLCanvasElement>()
+
+function patternTile(theme: Theme, pattern: ThemePattern): HTMLCanvasElement | null {
+  const cached = patternTiles.get(theme.id)
+  if (cached) return cached
+  const tile = document.createElement('canvas')
+  tile.width = PATTERN_TILE_SIZE
+  tile.height = PATTERN_TILE_SIZE
+  const ctx = tile.getContext('2d')
+  if (!ctx) return null
+  drawPatternTile(ctx, pattern)
+  patternTiles.set(theme.id, tile)
+  return tile
+}
+
+// Background, pattern and the "FidgetBall" watermark
+export function paintBackground(ctx: CanvasRenderingContext2D, theme: Theme, width: number, height: number) {
+  ctx.fillStyle = theme.background
+  ctx.fillRect(0, 0, width, height)
+
+  const tile = theme.pattern && patternTile(theme, theme.pattern)
+  const pattern = tile && ctx.createPattern(tile, 'repeat')
+  if (pattern) {
+    ctx.fillStyle = pattern
+    ctx.fillRect(0, 0, width, height)
+  }
+
+  ctx.fillStyle = theme.watermark
+  ctx.font = `${Math.min(width, height) / 12}px ${theme.font}`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText('FidgetBall', width / 2, height / 2)
+}
+
+// `seam` is the ball's orientation from createBallOrientations; without one the ball is drawn plain
+export function paintBall(ctx: CanvasRenderingContext2D, material: BallMaterial, ball: Ball, seam: Vector3 | null = null) {
+  if (material.shadow) {
+    ctx.beginPath()
+    ctx.arc(ball.x + material.shadow.offsetX, ball.y + material.shadow.offsetY, ball.radius, 0, Math.PI * 2)
+    ctx.fillStyle = material.shadow.color
+    ctx.fill()
+  }
+
+  // Lit from the top left, like the highlight
+  const gradient = ctx.createRadialGradient(
+    ball.x - ball.radius * 0.3,
+    ball.y - ball.radius * 0.3,
+    0,
+    ball.x,
+    ball.y,
+    ball.radius
+  )
+  for (const stop of material.stops) {
+    gradient.addColorStop(stop.offset, resolveColor(stop.color, ball))
+  }
+
+  ctx.save()
+  if (material.glow) {
+    ctx.shadowColor = resolveColor(material.glow.color, ball)
+    ctx.shadowBlur = material.glow.blur
+  }
+  ctx.beginPath()
+  ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2)
+  ctx.fillStyle = gradient
+  ctx.fill()
+  ctx.restore()
+
+  if (material.outline) {
+    ctx.strokeStyle = resolveColor(material.outline.color, ball)
+    ctx.lineWidth = material.outline.width
+    ctx.stroke()
+  }
+
+  // Under the highlight, which stays put while the ball turns
+  if (material.seam && seam) {
+    traceSeam(ctx, ball.x, ball.y, ball.radius, seam)
+    ctx.strokeStyle = resolveColor(material.seam.color, ball)
+    ctx.lineWidth = Math.min(material.seam.width, ball.radius / 3)
+    ctx.lineCap = 'round'
+    ctx.stroke()
+  }
+
+  if (material.highlight) {
+    ctx.beginPath()
+    ctx.arc(ball.x - ball.radius * 0.4, ball.y - ball.radius * 0.4, ball.radius * 0.3, 0, Math.PI * 2)
+    ctx.fillStyle = material.highlight
+    ctx.fill()
+  }
+}
@@ -0,0 +1,14 @@
+// Calls into the Farcaster host can hang forever outside a client or when a
+// CSP blocks the bridge. Racing them against a timer lets callers fall back.
+
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string = 'Timeout'): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
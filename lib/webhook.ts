@@ -0,0 +1,159 @@
+// Farcaster mini app webhook events. Clients POST them as a JSON Farcaster
+// Signature: base64url header, payload and signature, where the header names
+// the user's fid and the app key that signed the payload with Ed25519.
+// A valid signature only proves the event came from that key; checking that
+// the key belongs to the fid takes a Farcaster hub (FARCASTER_HUB_URL).
+
+import { createPublicKey, verify } from 'crypto'
+import { NotificationDetails } from './notificationStore'
+import { withTimeout } from './timeout'
+
+export type WebhookEvent =
+  | { event: 'frame_added'; notificationDetails: NotificationDetails | null }
+  | { event: 'frame_removed' }
+  | { event: 'notifications_enabled'; notificationDetails: NotificationDetails }
+  | { event: 'notifications_disabled' }
+
+export interface VerifiedWebhookEvent {
+  fid: number
+  appKey: string // 0x-prefixed hex Ed25519 public key
+  event: WebhookEvent
+}
+
+// Resolves true when `appKey` is an active signer for `fid`
+export type AppKeyVerifier = (fid: number, appKey: string) => Promise<boolean>
+
+// The body is malformed; responded to with 400
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookValidationError'
+  }
+}
+
+// The body is well formed but not signed by the fid's app key; responded to with 401
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/
+const APP_KEY_PATTERN = /^0x[0-9a-f]{64}$/i
+const MAX_TOKEN_LENGTH = 256
+const MAX_URL_LENGTH = 1024
+const HUB_TIMEOUT_MS = 5000
+
+function decodeJson(encoded: string, part: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'))
+    if (typeof value === 'object' && value !== null) return value
+  } catch {
+    // Reported below
+  }
+  throw new WebhookValidationError(`${part} must be base64url encoded JSON`)
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+function parseNotificationDetails(value: unknown): NotificationDetails {
+  const details = value as Record<string, unknown> | null
+  if (typeof details !== 'object' || details === null) {
+    throw new WebhookValidationError('notificationDetails is required')
+  }
+  const { url, token } = details
+  if (typeof token !== 'string' || token.length === 0 || token.length > MAX_TOKEN_LENGTH) {
+    throw new WebhookValidationError('notificationDetails.token must be a non-empty string')
+  }
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH || !isHttpUrl(url)) {
+    throw new WebhookValidationError('notificationDetails.url must be an http(s) URL')
+  }
+  return { url, token }
+}
+
+function parseEvent(payload: Record<string, unknown>): WebhookEvent {
+  switch (payload.event) {
+    case 'frame_added':
+      return {
+        event: 'frame_added',
+        // Clients that don't support notifications leave this out
+        notificationDetails: payload.notificationDetails ? parseNotificationDetails(payload.notificationDetails) : null
+      }
+    case 'notifications_enabled':
+      return { event: 'notifications_enabled', notificationDetails: parseNotificationDetails(payload.notificationDetails) }
+    case 'frame_removed':
+    case 'notifications_disabled':
+      return { event: payload.event }
+    default:
+      throw new WebhookValidationError(`unknown event: ${String(payload.event)}`)
+  }
+}
+
+function verifySignature(appKey: string, signedData: string, signature: string): boolean {
+  try {
+    const publicKey = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(appKey.slice(2), 'hex').toString('base64url') },
+      format: 'jwk'
+    })
+    return verify(null, Buffer.from(signedData), publicKey, Buffer.from(signature, 'base64url'))
+  } catch {
+    return false
+  }
+}
+
+export async function verifyWebhookEvent(body: unknown, verifyAppKey: AppKeyVerifier | null): Promise<VerifiedWebhookEvent> {
+  const envelope = body as Record<string, unknown> | null
+  if (typeof envelope !== 'object' || envelope === null) throw new WebhookValidationError('body must be an object')
+  const { header, payload, signature } = envelope
+  for (const [part, value] of [['header', header], ['payload', payload], ['signature', signature]] as const) {
+    if (typeof value !== 'string' || !BASE64URL_PATTERN.test(value)) {
+      throw new WebhookValidationError(`${part} must be a base64url string`)
+    }
+  }
+  const encodedHeader = header as string
+  const encodedPayload = payload as string
+
+  const { fid, type, key } = decodeJson(encodedHeader, 'header')
+  if (typeof fid !== 'number' || !Number.isInteger(fid) || fid <= 0) {
+    throw new WebhookValidationError('header.fid must be a positive integer')
+  }
+  if (type !== 'app_key' || typeof key !== 'string' || !APP_KEY_PATTERN.test(key)) {
+    throw new WebhookValidationError('header must name an Ed25519 app_key')
+  }
+  const event = parseEvent(decodeJson(encodedPayload, 'payload'))
+
+  if (!verifySignature(key, `${encodedHeader}.${encodedPayload}`, signature as string)) {
+    throw new WebhookSignatureError('signature does not match the app key')
+  }
+  if (verifyAppKey && !(await verifyAppKey(fid, key))) {
+    throw new WebhookSignatureError(`app key is not an active signer for fid ${fid}`)
+  }
+
+  return { fid, appKey: key, event }
+}
+
+// Asks a hub's HTTP API whether the key is one of the fid's on-chain signers
+export function createHubAppKeyVerifier(hubUrl: string): AppKeyVerifier {
+  const base = hubUrl.replace(/\/+$/, '')
+  return async (fid, appKey) => {
+    const query = new URLSearchParams({ fid: String(fid), signer: appKey })
+    const response = await withTimeout(fetch(`${base}/v1/onChainSignersByFid?${query}`), HUB_TIMEOUT_MS, 'Hub timeout')
+    // Hubs answer 404 for keys the fid never added or has removed
+    if (response.status === 404 || response.status === 400) return false
+    if (!response.ok) throw new Error(`Hub lookup failed: ${response.status}`)
+    return true
+  }
+}
+
+// Without a hub only the signature is checked, which is fine against a local stub;
+// the webhook route refuses events in production until one is set
+export function getAppKeyVerifier(env: Record<string, string | undefined> = process.env): AppKeyVerifier | null {
+  return env.FARCASTER_HUB_URL ? createHubAppKeyVerifier(env.FARCASTER_HUB_URL) : null
+}
@@ -3,6 +3,8 @@ const { parse } = require('url')
 const next = require('next')
 const selfsigned = require('selfsigned')
 const os = require('os')
+// TypeScript, so this script runs under tsx (npm run dev:https)
+const { attachMultiplayerServer } = require('../lib/multiplayerServer')
 
 const dev = process.env.NODE_ENV !== 'production'
 const hostname = '0.0.0.0' // Allow external connections
@@ -35,6 +37,9 @@ async function startServer() {
       }
     })
 
+    // Multiplayer rooms share the server; Next keeps handling every other upgrade
+    attachMultiplayerServer(server)
+
     server.listen(port, hostname, (err) => {
       if (err) throw err
       
@@ -59,6 +64,7 @@ async function startServer() {
       })
       console.log(``)
       console.log(`💻 Local access: https://localhost:${port}`)
+      console.log(`🎮 Multiplayer: open https://localhost:${port}/?room=TEST in two tabs`)
       console.log(``)
       console.log(`⚠️  Important: Accept the self-signed certificate warning on your device`)
       console.log(`   iOS: Tap "Advanced" → "Proceed to [address]"`)
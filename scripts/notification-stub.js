@@ -0,0 +1,89 @@
+// Local stand-in for a Farcaster client, for trying notifications end to end.
+//
+//   npm run notifications:stub
+//     Serves a notification endpoint on http://localhost:4000/notify that logs
+//     each request. Tokens starting with "invalid" or "limited" come back as
+//     invalid or rate limited; every other token succeeds.
+//
+//   npm run notifications:stub -- add <fid> [token] [app URL]
+//   npm run notifications:stub -- remove <fid> [app URL]
+//     Signs a notifications_enabled / notifications_disabled event with a
+//     throwaway app key and posts it to the app's /api/webhook. Leave
+//     FARCASTER_HUB_URL unset on the app, since the hub won't know this key.
+
+const http = require('http')
+const { generateKeyPairSync, sign } = require('crypto')
+
+const PORT = Number(process.env.STUB_PORT || 4000)
+const STUB_URL = `http://localhost:${PORT}/notify`
+const DEFAULT_APP_URL = 'http://localhost:3000'
+
+function serve() {
+  const server = http.createServer((request, response) => {
+    if (request.method !== 'POST' || request.url !== '/notify') {
+      response.writeHead(404).end()
+      return
+    }
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      let notification
+      try {
+        notification = JSON.parse(body)
+      } catch {
+        response.writeHead(400).end()
+        return
+      }
+      console.log(new Date().toISOString(), JSON.stringify(notification, null, 2))
+      const tokens = Array.isArray(notification.tokens) ? notification.tokens : []
+      const result = {
+        successfulTokens: tokens.filter(token => !/^(invalid|limited)/.test(token)),
+        invalidTokens: tokens.filter(token => token.startsWith('invalid')),
+        rateLimitedTokens: tokens.filter(token => token.startsWith('limited'))
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ result }))
+    })
+  })
+  server.listen(PORT, () => console.log(`Notification stub listening on ${STUB_URL}`))
+}
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+async function postEvent(fid, payload, appUrl) {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+  const key = `0x${Buffer.from(publicKey.export({ format: 'jwk' }).x, 'base64url').toString('hex')}`
+  const header = encode({ fid, type: 'app_key', key })
+  const encodedPayload = encode(payload)
+  const signature = sign(null, Buffer.from(`${header}.${encodedPayload}`), privateKey).toString('base64url')
+
+  const response = await fetch(`${appUrl.replace(/\/+$/, '')}/api/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ header, payload: encodedPayload, signature })
+  })
+  console.log(`${payload.event} for fid ${fid}: ${response.status} ${await response.text()}`)
+  if (!response.ok) process.exitCode = 1
+}
+
+function readFid(value) {
+  const fid = Number(value)
+  if (!Number.isInteger(fid) || fid <= 0) {
+    console.error('fid must be a positive integer')
+    process.exit(1)
+  }
+  return fid
+}
+
+const [command, ...args] = process.argv.slice(2)
+if (!command) {
+  serve()
+} else if (command === 'add') {
+  const fid = readFid(args[0])
+  const token = args[1] || `stub-token-${fid}`
+  postEvent(fid, { event: 'notifications_enabled', notificationDetails: { url: STUB_URL, token } }, args[2] || DEFAULT_APP_URL)
+} else if (command === 'remove') {
+  postEvent(readFid(args[0]), { event: 'notifications_disabled' }, args[1] || DEFAULT_APP_URL)
+} else {
+  console.error(`Unknown command: ${command} (expected add or remove)`)
+  process.exit(1)
+}
@@ -0,0 +1,186 @@
+// Checks a running deployment's mini app manifest and fc:frame embed tag
+// against the Farcaster schema.
+// Usage: npm run validate:manifest -- [base URL, default http://localhost:3000]
+
+const baseUrl = (process.argv[2] || 'http://localhost:3000').replace(/\/+$/, '')
+
+const MAX_URL_LENGTH = 1024
+const MAX_NAME_LENGTH = 32
+const MAX_BUTTON_TITLE_LENGTH = 32
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+const errors = []
+const warnings = []
+
+const isLocal = (url) => ['localhost', '127.0.0.1'].includes(url.hostname)
+
+function checkString(path, value, maxLength) {
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${path} must be a non-empty string`)
+  } else if (maxLength && value.length > maxLength) {
+    errors.push(`${path} must be at most ${maxLength} characters (got ${value.length})`)
+  }
+}
+
+// Hosts only load https URLs; plain http is tolerated for local testing
+function checkUrl(path, value) {
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a URL`)
+    return null
+  }
+  let url
+  try {
+    url = new URL(value)
+  } catch {
+    errors.push(`${path} is not a valid URL: ${value}`)
+    return null
+  }
+  if (value.length > MAX_URL_LENGTH) errors.push(`${path} must be at most ${MAX_URL_LENGTH} characters`)
+  if (url.protocol !== 'https:') {
+    const message = `${path} should use https: ${value}`
+    if (isLocal(url)) {
+      warnings.push(message)
+    } else {
+      errors.push(message)
+    }
+  }
+  return url
+}
+
+function checkColor(path, value) {
+  if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    errors.push(`${path} must be a #rrggbb colour`)
+  }
+}
+
+function checkManifest(manifest) {
+  if (typeof manifest !== 'object' || manifest === null) {
+    errors.push('manifest must be a JSON object')
+    return
+  }
+
+  const frame = manifest.frame
+  if (typeof frame !== 'object' || frame === null) {
+    errors.push('manifest.frame is missing')
+    return
+  }
+  if (frame.version !== '1') errors.push(`frame.version must be "1"`)
+  checkString('frame.name', frame.name, MAX_NAME_LENGTH)
+  checkUrl('frame.iconUrl', frame.iconUrl)
+  const homeUrl = checkUrl('frame.homeUrl', frame.homeUrl)
+  checkUrl('frame.imageUrl', frame.imageUrl)
+  checkString('frame.buttonTitle', frame.buttonTitle, MAX_BUTTON_TITLE_LENGTH)
+  checkUrl('frame.splashImageUrl', frame.splashImageUrl)
+  checkColor('frame.splashBackgroundColor', frame.splashBackgroundColor)
+  if (frame.webhookUrl !== undefined) checkUrl('frame.webhookUrl', frame.webhookUrl)
+
+  const association = manifest.accountAssociation
+  if (association === undefined) {
+    warnings.push('accountAssociation is missing; hosts will treat the app as unverified')
+    return
+  }
+  for (const field of ['header', 'payload', 'signature']) {
+    checkString(`accountAssociation.${field}`, association[field])
+  }
+  // The signed payload names the domain it was issued for
+  try {
+    const payload = JSON.parse(Buffer.from(association.payload, 'base64url').toString('utf8'))
+    if (homeUrl && payload.domain !== homeUrl.host) {
+      errors.push(`accountAssociation is signed for ${payload.domain}, but the app is served from ${homeUrl.host}`)
+    }
+  } catch {
+    errors.push('accountAssociation.payload is not base64url-encoded JSON')
+  }
+}
+
+function checkEmbed(embed, manifest) {
+  if (typeof embed !== 'object' || embed === null) {
+    errors.push('fc:frame must be a JSON object')
+    return
+  }
+  if (embed.version !== 'next') errors.push('fc:frame version must be "next"')
+  checkUrl('fc:frame imageUrl', embed.imageUrl)
+
+  const button = embed.button
+  if (typeof button !== 'object' || button === null) {
+    errors.push('fc:frame button is missing')
+    return
+  }
+  checkString('fc:frame button.title', button.title, MAX_BUTTON_TITLE_LENGTH)
+
+  const action = button.action
+  if (typeof action !== 'object' || action === null) {
+    errors.push('fc:frame button.action is missing')
+    return
+  }
+  if (action.type !== 'launch_frame') errors.push('fc:frame button.action.type must be "launch_frame"')
+  checkString('fc:frame button.action.name', action.name, MAX_NAME_LENGTH)
+  checkUrl('fc:frame button.action.url', action.url)
+  if (action.splashImageUrl !== undefined) checkUrl('fc:frame button.action.splashImageUrl', action.splashImageUrl)
+  if (action.splashBackgroundColor !== undefined) checkColor('fc:frame button.action.splashBackgroundColor', action.splashBackgroundColor)
+
+  // Both are built from the same config, so any mismatch means a stale deployment
+  const frame = manifest && manifest.frame
+  if (frame && action.name !== frame.name) warnings.push('fc:frame action name differs from the manifest name')
+  if (frame && embed.imageUrl !== frame.imageUrl) warnings.push('fc:frame imageUrl differs from the manifest imageUrl')
+}
+
+const decodeEntities = (text) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+
+function findEmbedTag(html) {
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/g)) {
+    if (!/name="fc:frame"/.test(tag)) continue
+    const content = tag.match(/content="([^"]*)"/)
+    return content ? decodeEntities(content[1]) : null
+  }
+  return null
+}
+
+async function main() {
+  console.log(`Validating ${baseUrl}`)
+
+  let manifest = null
+  const manifestResponse = await fetch(`${baseUrl}/.well-known/farcaster.json`)
+  if (!manifestResponse.ok) {
+    errors.push(`/.well-known/farcaster.json returned ${manifestResponse.status}`)
+  } else {
+    try {
+      manifest = await manifestResponse.json()
+      checkManifest(manifest)
+    } catch {
+      errors.push('/.well-known/farcaster.json is not valid JSON')
+    }
+  }
+
+  const pageResponse = await fetch(`${baseUrl}/`)
+  const embedTag = pageResponse.ok ? findEmbedTag(await pageResponse.text()) : null
+  if (!pageResponse.ok) {
+    errors.push(`home page returned ${pageResponse.status}`)
+  } else if (embedTag === null) {
+    errors.push('home page has no fc:frame meta tag')
+  } else {
+    try {
+      checkEmbed(JSON.parse(embedTag), manifest)
+    } catch {
+      errors.push('fc:frame meta content is not valid JSON')
+    }
+  }
+
+  warnings.forEach(warning => console.log(`⚠️  ${warning}`))
+  errors.forEach(error => console.log(`❌ ${error}`))
+  if (errors.length > 0) {
+    process.exit(1)
+  }
+  console.log('✅ Manifest and embed look valid')
+}
+
+main().catch((error) => {
+  console.error(`Could not reach ${baseUrl}:`, error.message)
+  process.exit(1)
+})